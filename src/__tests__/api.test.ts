@@ -0,0 +1,350 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createInterrupts,
+  createLogger,
+  interrupt,
+  planRun,
+  prepareRun,
+  resolveEnvironment,
+  run,
+} from '../index.js';
+import { encryptText, generateKey, parseKey } from '../secrets.js';
+
+describe('programmatic API', () => {
+  let dir: string;
+  // Compose probes are cached in the test directory, never in the user's cache.
+  const testEnv = () => ({ PATH: process.env.PATH, XDG_CACHE_HOME: path.join(dir, '.cache') });
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'cmpcat-api-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('resolves the environment from the given cwd and env without touching process.env', () => {
+    writeFileSync(path.join(dir, '.env'), 'GREETING=hello ${NAME}\n');
+    writeFileSync(path.join(dir, '.env.dev'), 'STAGE=dev\n');
+    const env = { NAME: 'cat' };
+    const resolved = resolveEnvironment({ cwd: dir, env, profile: ['dev'] });
+    expect(resolved.errors).toEqual([]);
+    expect(resolved.envFiles).toEqual([path.join(dir, '.env'), path.join(dir, '.env.dev')]);
+    expect(resolved.mergedEnv).toMatchObject({
+      GREETING: 'hello cat',
+      STAGE: 'dev',
+      CMPCAT_PROFILES: 'dev',
+    });
+    expect(env).toEqual({ NAME: 'cat' });
+    expect(process.env.GREETING).toBeUndefined();
+    expect(process.env.CMPCAT_PROFILES).toBeUndefined();
+  });
+
+  it('logs nothing unless it is given a logger', () => {
+    writeFileSync(path.join(dir, '.env'), 'A=1\n');
+    const stderr = vi.spyOn(process.stderr, 'write');
+    resolveEnvironment({ cwd: dir, env: {} });
+    expect(stderr).not.toHaveBeenCalled();
+    stderr.mockRestore();
+
+    const lines: string[] = [];
+    const logger = createLogger({ format: 'json', sink: (line) => lines.push(line) });
+    resolveEnvironment({ cwd: dir, env: {}, logger });
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      expect.objectContaining({ msg: 'merging base dotenv file', file: path.join(dir, '.env') }),
+    ]);
+  });
+
+  it('adds the profiles a profile extends, transitively and before it', () => {
+    const write = (name: string, content: string) => writeFileSync(path.join(dir, name), content);
+    write('.env.staging', 'CMPCAT_EXTENDS=prod,observability\nLEVEL=staging\n');
+    write('.env.prod', 'CMPCAT_EXTENDS=base\nLEVEL=prod\nDB=prod-db\n');
+    write('.env.base', 'LEVEL=base\n');
+    write('.env.observability.local', 'CMPCAT_EXTENDS=base\nOTEL=1\n');
+    const env = testEnv();
+
+    const resolved = resolveEnvironment({ cwd: dir, env, profile: ['staging'] });
+    expect(resolved.errors).toEqual([]);
+    expect(resolved.profiles).toEqual(['base', 'prod', 'observability', 'staging']);
+    expect(resolved.composeProfiles).toEqual(resolved.profiles);
+    expect(resolved.envFiles.map((f) => path.basename(f))).toEqual([
+      '.env.base',
+      '.env.prod',
+      '.env.observability.local',
+      '.env.staging',
+    ]);
+    expect(resolved.mergedEnv).toMatchObject({
+      LEVEL: 'staging',
+      DB: 'prod-db',
+      OTEL: '1',
+      CMPCAT_PROFILES: 'base,prod,observability,staging',
+    });
+
+    const { prepared } = prepareRun({
+      cwd: dir,
+      env,
+      cmpBin: ['true'],
+      profile: ['staging'],
+      extendsEnvOnly: true,
+      composeArgs: ['up'],
+    });
+    expect(prepared?.environment.composeProfiles).toEqual(['staging']);
+    const args = prepared?.steps[0].type === 'compose' ? prepared.steps[0].args : [];
+    expect(args.filter((a, i) => args[i - 1] === '--profile')).toEqual(['staging']);
+
+    write('.env.base', 'CMPCAT_EXTENDS=staging\n');
+    expect(resolveEnvironment({ cwd: dir, env, profile: ['staging'] }).errors).toEqual([
+      'profile "staging" extends itself (staging -> prod -> base -> staging)',
+    ]);
+  });
+
+  it('returns step results and the exit code of a run', async () => {
+    mkdirSync(path.join(dir, '.cmp/hooks/pre'), { recursive: true });
+    writeFileSync(
+      path.join(dir, '.cmp/hooks/pre/10-export.sh'),
+      '#!/bin/sh\necho "TOKEN=abc" >> "$CMPCAT_HOOK_ENV_OUT"\n',
+      { mode: 0o755 },
+    );
+    const result = await run({ cwd: dir, env: testEnv(), cmpBin: ['true'] });
+    expect(result.errors).toEqual([]);
+    expect(result.exitCode).toBe(0);
+    expect(result.steps.map((s) => [s.type, s.status])).toEqual([
+      ['hook', 'ok'],
+      ['compose', 'ok'],
+    ]);
+    expect(process.env.TOKEN).toBeUndefined();
+  });
+
+  it('masks decrypted values that hooks export in the debug log', async () => {
+    const secretsKey = generateKey();
+    const secret = 'postgres://app:hunter2@db';
+    writeFileSync(
+      path.join(dir, '.env.enc'),
+      encryptText(`DB_URL=${secret}\n`, parseKey(secretsKey, 'test').key),
+    );
+    writeFileSync(
+      path.join(dir, 'cmp.pre.sh'),
+      '#!/bin/sh\nprintf "COPY=%s\\nPLAIN=x\\n" "$DB_URL" >> "$CMPCAT_HOOK_ENV_OUT"\n',
+      { mode: 0o755 },
+    );
+    const lines: string[] = [];
+    const logger = createLogger({ level: 'debug', sink: (line) => lines.push(line) });
+    const env = { ...testEnv(), CMPCAT_SECRETS_KEY: secretsKey };
+    const result = await run({ cwd: dir, env, cmpBin: ['true'], logger });
+    expect(result.errors).toEqual([]);
+    expect(lines).toContainEqual(expect.stringContaining('env={"COPY":"********","PLAIN":"x"}'));
+    expect(lines.filter((line) => line.includes('hunter2'))).toEqual([]);
+  });
+
+  it('reports errors instead of exiting', async () => {
+    const result = await run({ cwd: dir, env: testEnv(), cmpBin: ['false'] });
+    expect(result.exitCode).toBe(1);
+    expect(result.steps).toEqual([]);
+    expect(result.errors).toEqual([expect.stringContaining('no compose binary detected')]);
+  });
+
+  it('stops on an interrupt, runs down and still runs the post hooks', async () => {
+    const compose = path.join(dir, 'fake-compose.sh');
+    writeFileSync(compose, '#!/bin/sh\n[ "$1" = up ] && exec sleep 10\nexit 0\n', { mode: 0o755 });
+    writeFileSync(
+      path.join(dir, 'cmp.post.sh'),
+      '#!/bin/sh\necho "$CMPCAT_HOOK_EXIT_REASON" > reason.txt\n',
+      { mode: 0o755 },
+    );
+    const interrupts = createInterrupts();
+    setTimeout(() => interrupt(interrupts, 'SIGTERM'), 300);
+    const result = await run({
+      cwd: dir,
+      env: testEnv(),
+      cmpBin: [compose],
+      composeArgs: ['up'],
+      downOnExit: true,
+      interrupts,
+    });
+    expect(result.exitCode).toBe(143);
+    expect(result.steps.map((s) => [s.type, s.status])).toEqual([
+      ['compose', 'interrupted'],
+      ['compose', 'ok'],
+      ['hook', 'ok'],
+    ]);
+    expect(result.steps[1]).toMatchObject({ args: ['down'] });
+    expect(readFileSync(path.join(dir, 'reason.txt'), 'utf8').trim()).toBe('signal');
+  });
+
+  it('runs the steps of a task and stops at the first failure that may not continue', async () => {
+    const compose = path.join(dir, 'fake-compose.sh');
+    writeFileSync(compose, '#!/bin/sh\n[ "$1" = fail ] && exit 3\nexit 0\n', { mode: 0o755 });
+    writeFileSync(
+      path.join(dir, 'seed.sh'),
+      '#!/bin/sh\necho "SEEDED=$CMPCAT_HOOK_EVENT" >> "$CMPCAT_HOOK_ENV_OUT"\n',
+      { mode: 0o755 },
+    );
+    writeFileSync(
+      path.join(dir, 'compose-cat.config.json'),
+      JSON.stringify({
+        tasks: {
+          seed: {
+            steps: [
+              { hook: 'seed.sh' },
+              { shell: 'echo "$SEEDED" > seeded.txt' },
+              { compose: 'fail', continueOnError: true },
+              { task: 'cmp-clean' },
+              { compose: 'fail' },
+              { shell: 'touch never' },
+            ],
+          },
+        },
+      }),
+    );
+    const result = await run({
+      cwd: dir,
+      env: testEnv(),
+      cmpBin: [compose],
+      task: 'seed',
+    });
+    expect(result.exitCode).toBe(3);
+    expect(result.steps.map((s) => [s.type, s.status, 'note' in s ? s.note : undefined])).toEqual([
+      ['hook', 'ok', undefined],
+      ['shell', 'ok', undefined],
+      ['compose', 'failed', 'continue-on-error'],
+      ['compose', 'ok', undefined],
+      ['compose', 'ok', undefined],
+      ['compose', 'failed', undefined],
+      ['shell', 'skipped', undefined],
+    ]);
+    expect(readFileSync(path.join(dir, 'seeded.txt'), 'utf8').trim()).toBe('task');
+  });
+
+  it('cascades dotenv files and hooks from the project root down to the cwd', async () => {
+    const api = path.join(dir, 'services/api');
+    mkdirSync(path.join(dir, '.git'));
+    mkdirSync(api, { recursive: true });
+    writeFileSync(path.join(dir, '.env'), 'A=root\nB=root\n');
+    writeFileSync(path.join(api, '.env'), 'B=api\n');
+    for (const [level, where] of [
+      ['root', dir],
+      ['api', api],
+    ]) {
+      for (const stage of ['pre', 'post']) {
+        writeFileSync(
+          path.join(where, `cmp.${stage}.sh`),
+          `#!/bin/sh\necho ${level}-${stage} >> order.txt\n`,
+          { mode: 0o755 },
+        );
+      }
+    }
+    const env = testEnv();
+
+    expect(resolveEnvironment({ cwd: api, env }).envFiles).toEqual([path.join(api, '.env')]);
+    const resolved = resolveEnvironment({ cwd: api, env, cascade: true });
+    expect(resolved.dirs).toEqual([dir, path.join(dir, 'services'), api]);
+    expect(resolved.envFiles).toEqual([path.join(dir, '.env'), path.join(api, '.env')]);
+    expect(resolved.mergedEnv).toMatchObject({ A: 'root', B: 'api' });
+
+    const result = await run({ cwd: api, env, cmpBin: ['true'], cascade: true });
+    expect(result.exitCode).toBe(0);
+    expect(readFileSync(path.join(api, 'order.txt'), 'utf8').split('\n')).toEqual([
+      'root-pre',
+      'api-pre',
+      'api-post',
+      'root-post',
+      '',
+    ]);
+  });
+
+  it('layers env provider output and passes it to compose in a temp env file', async () => {
+    writeFileSync(path.join(dir, '.env'), 'A=static\nB=static\n');
+    writeFileSync(path.join(dir, '.env.sh'), '#!/bin/sh\necho "B=dyn-$A"\necho \'TOKEN=x$y\'\n', {
+      mode: 0o755,
+    });
+    writeFileSync(path.join(dir, '.env.dev'), 'C=dev\n');
+    writeFileSync(path.join(dir, '.env.dev.sh'), '#!/bin/sh\necho "C=$C-$CMPCAT_PROFILES"\n', {
+      mode: 0o755,
+    });
+    const compose = path.join(dir, 'fake-compose.sh');
+    writeFileSync(
+      compose,
+      [
+        '#!/bin/sh',
+        '[ "$1" = version ] && { echo "Docker Compose version v2.24.5"; exit 0; }',
+        'while [ $# -gt 0 ]; do',
+        '  [ "$1" = --env-file ] && { echo "$2" >> files.txt; cat "$2" >> files.txt; }',
+        '  shift',
+        'done',
+        '',
+      ].join('\n'),
+      { mode: 0o755 },
+    );
+    const env = testEnv();
+
+    const resolved = resolveEnvironment({ cwd: dir, env, profile: ['dev'] });
+    expect(resolved.errors).toEqual([]);
+    expect(resolved.envFiles).toEqual(
+      ['.env', '.env.sh', '.env.dev', '.env.dev.sh'].map((f) => path.join(dir, f)),
+    );
+    expect(resolved.mergedEnv).toMatchObject({
+      A: 'static',
+      B: 'dyn-static',
+      C: 'dev-dev',
+      TOKEN: 'x$y',
+    });
+    expect(resolved.provenance.B.map((s) => s.source)).toEqual([
+      path.join(dir, '.env'),
+      path.join(dir, '.env.sh'),
+    ]);
+
+    const result = await run({ cwd: dir, env, profile: ['dev'], cmpBin: [compose] });
+    expect(result.errors).toEqual([]);
+    expect(result.exitCode).toBe(0);
+    const lines = readFileSync(path.join(dir, 'files.txt'), 'utf8').split('\n');
+    const generated = lines.filter((l) => l.includes(`${path.sep}cmpcat-env-`));
+    expect(generated).toHaveLength(2);
+    expect(lines).toEqual(expect.arrayContaining(["B='dyn-static'", "TOKEN='x$y'", "C='dev-dev'"]));
+    for (const file of generated) expect(existsSync(file)).toBe(false);
+  });
+
+  it('lists env providers without running them in a dry run', () => {
+    writeFileSync(path.join(dir, '.env.sh'), '#!/bin/sh\ntouch provider-ran\necho A=1\n', {
+      mode: 0o755,
+    });
+    const { plan, errors } = planRun({
+      cwd: dir,
+      env: testEnv(),
+      cmpBin: ['true'],
+    });
+    expect(errors).toEqual([]);
+    expect(plan?.envFiles).toEqual([path.join(dir, '.env.sh')]);
+    expect(plan?.envProviders).toEqual([path.join(dir, '.env.sh')]);
+    expect(existsSync(path.join(dir, 'provider-ran'))).toBe(false);
+  });
+
+  it('stops when an env provider fails', () => {
+    writeFileSync(path.join(dir, '.env.sh'), '#!/bin/sh\nexit 5\n', { mode: 0o755 });
+    const { prepared, errors } = prepareRun({ cwd: dir, env: testEnv() });
+    expect(prepared).toBeUndefined();
+    expect(errors).toEqual([`env provider ${path.join(dir, '.env.sh')} failed with exit code 5`]);
+  });
+
+  it('runs hooks and compose binaries from paths with spaces', async () => {
+    const spaced = path.join(dir, 'my project');
+    mkdirSync(spaced);
+    const compose = path.join(spaced, 'fake compose.sh');
+    writeFileSync(compose, '#!/bin/sh\nprintf "%s\\n" "$@" > args.txt\n', { mode: 0o755 });
+    writeFileSync(path.join(spaced, 'cmp.pre.sh'), '#!/bin/sh\ntouch hook-ran\n', { mode: 0o755 });
+    const result = await run({
+      cwd: spaced,
+      env: testEnv(),
+      cmpBin: [`'${compose}'`],
+      composeArgs: ['run', 'app', 'echo', "$(id) it's"],
+    });
+    expect(result.errors).toEqual([]);
+    expect(result.exitCode).toBe(0);
+    expect(readFileSync(path.join(spaced, 'hook-ran'), 'utf8')).toBe('');
+    expect(readFileSync(path.join(spaced, 'args.txt'), 'utf8')).toBe(
+      ['run', 'app', 'echo', "$(id) it's", ''].join('\n'),
+    );
+  });
+});
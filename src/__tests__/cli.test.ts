@@ -0,0 +1,58 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+const CLI = fileURLToPath(new URL('../cli.ts', import.meta.url));
+// Resolved here: the CLI runs in a temp dir without node_modules.
+const TSX = pathToFileURL(createRequire(import.meta.url).resolve('tsx')).href;
+
+describe('CLI', () => {
+  let dir: string;
+  let compose: string;
+
+  const cli = (...args: string[]) =>
+    spawnSync(process.execPath, ['--import', TSX, CLI, ...args], {
+      cwd: dir,
+      env: { PATH: process.env.PATH, XDG_CACHE_HOME: dir, CMPCAT_LOG_LEVEL: 'silent' },
+      encoding: 'utf8',
+      timeout: 60_000,
+    });
+  // Without the `version` probes.
+  const calls = () =>
+    readFileSync(path.join(dir, 'calls.txt'), 'utf8')
+      .trim()
+      .split('\n')
+      .filter((line) => line !== 'version');
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'cmpcat-cli-'));
+    compose = path.join(dir, 'fake-compose.sh');
+    writeFileSync(compose, '#!/bin/sh\necho "$*" >> calls.txt\n', { mode: 0o755 });
+    writeFileSync(path.join(dir, '.env.dev'), 'STAGE=dev\n');
+    writeFileSync(
+      path.join(dir, 'compose-cat.config.json'),
+      JSON.stringify({ tasks: { reset: { steps: [{ compose: ['down'] }] } } }),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the options given before run, for compose run and for tasks', () => {
+    const envFile = path.join(dir, '.env.dev');
+    expect(cli('--cmp-bin', compose, '--profile=dev', 'run', '--rm', 'api', 'sh').status).toBe(0);
+    expect(cli('--cmp-bin', compose, '--profile', 'dev', '-p', 'app', 'run', 'reset').status).toBe(
+      0,
+    );
+    expect(calls()).toEqual([
+      `--profile dev --env-file ${envFile} run --rm api sh`,
+      `--profile dev --env-file ${envFile} -p app down`,
+    ]);
+    expect(cli('run', '--list').stdout).toContain('reset');
+  });
+});
@@ -0,0 +1,133 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  complete,
+  CompletionCommand,
+  CompletionSources,
+  listDotenvProfiles,
+  listHookNames,
+  resolveOptions,
+} from '../index.js';
+
+const option = (flag: string, name: string, takesValue = false, variadic = false) => ({
+  flags: [flag],
+  name,
+  takesValue,
+  variadic,
+});
+
+const runOptions = [
+  option('--profile', 'profile', true, true),
+  option('--cmp-hook', 'cmpHook', true, true),
+  option('--cmp-dotenv-prefix', 'cmpDotenvPrefix', true),
+  option('--cmp-skip-hooks', 'cmpSkipHooks'),
+];
+
+const root: CompletionCommand = {
+  name: 'compose-cat',
+  options: runOptions,
+  passthrough: 'compose',
+  subcommands: [
+    {
+      name: 'cmp-each',
+      options: [option('--cmp-parallel', 'cmpParallel', true)],
+      subcommands: [],
+      passthrough: 'compose-cat',
+    },
+    {
+      name: 'cmp-completion',
+      options: [],
+      subcommands: [],
+      args: ['bash', 'zsh', 'fish', 'powershell'],
+    },
+  ],
+};
+
+describe('shell completion', () => {
+  const seen: unknown[] = [];
+  const sources: CompletionSources = {
+    profiles: (options) => {
+      seen.push(options);
+      return ['dev', 'prod'];
+    },
+    hookNames: () => ['migrate', 'seed'],
+    services: () => ['api', 'db', 'web'],
+    tasks: () => ['reset'],
+  };
+  const suggest = (line: string) => {
+    const words = line.split(' ');
+    return complete(words, words.length - 1, root, sources);
+  };
+
+  it('completes options, commands and compose subcommands', () => {
+    expect(suggest('--cmp-')).toEqual(['--cmp-hook', '--cmp-dotenv-prefix', '--cmp-skip-hooks']);
+    expect(suggest('cmp-')).toEqual(['cmp-each', 'cmp-completion']);
+    expect(suggest('--cmp-skip-hooks u')).toEqual(['unpause', 'up']);
+    expect(suggest('cmp-completion ')).toEqual(['bash', 'zsh', 'fish', 'powershell']);
+  });
+
+  it('suggests profiles and hook names from the project with the options given so far', () => {
+    expect(suggest('--cmp-dotenv-prefix .cfg --profile ')).toEqual(['dev', 'prod']);
+    expect(seen).toEqual([{ cmpDotenvPrefix: '.cfg' }]);
+    expect(suggest('--profile dev ')).toEqual(['dev', 'prod']);
+    expect(suggest('--profile=p')).toEqual(['--profile=prod']);
+    // bash splits `--profile=p` into three words.
+    expect(suggest('--profile = p')).toEqual(['prod']);
+    expect(suggest('--cmp-hook s')).toEqual(['seed']);
+  });
+
+  it('suggests services after compose subcommands and tasks after run', () => {
+    expect(suggest('up ')).toEqual(['api', 'db', 'web']);
+    expect(suggest('up -d api ')).toEqual(['db', 'web']);
+    expect(suggest('exec api ')).toEqual([]);
+    expect(suggest('--profile dev --cmp-skip-hooks logs w')).toEqual(['web']);
+    expect(suggest('run ')).toEqual(['reset', 'api', 'db', 'web']);
+    expect(suggest('--profile dev -p app run r')).toEqual(['reset']);
+    expect(suggest('cmp-each --cmp-parallel 2 up a')).toEqual(['api']);
+    expect(suggest('cmp-each --profile ')).toEqual(['dev', 'prod']);
+  });
+
+  describe('project sources', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(path.join(tmpdir(), 'cmpcat-completion-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('finds profiles in dotenv file names and hook names in hook files', () => {
+      for (const name of [
+        '.env',
+        '.env.local',
+        '.env.key',
+        '.env.schema.json',
+        '.env.sh',
+        '.env.linux.sh',
+        '.env.dev',
+        '.env.prod.local.enc',
+        '.env.staging.sh',
+        'cmp.pre.sh',
+        'cmp.pre.linux.sh',
+        'cmp.pre.seed.sh',
+        'cmp.post.migrate.+node.js',
+        `cmp.pre.other.${process.platform === 'win32' ? 'linux' : 'win32'}.sh`,
+      ]) {
+        writeFileSync(path.join(dir, name), '');
+      }
+      mkdirSync(path.join(dir, '.cmp/hooks/pre.reset'), { recursive: true });
+      mkdirSync(path.join(dir, '.cmp/hooks/post'), { recursive: true });
+
+      expect(listDotenvProfiles(resolveOptions({ cwd: dir, env: {} }))).toEqual([
+        'dev',
+        'prod',
+        'staging',
+      ]);
+      expect(listHookNames({ cwd: dir })).toEqual(['migrate', 'reset', 'seed']);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  detectComposeFiles,
+  hasExplicitComposeFile,
+  readComposeServices,
+} from '../compose-files.js';
+
+describe('detectComposeFiles', () => {
+  let dir: string;
+  const touch = (...names: string[]) => names.forEach((n) => writeFileSync(path.join(dir, n), ''));
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'cmpcat-compose-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('layers base, override and per-profile files in dotenv order', () => {
+    touch('compose.yaml', 'compose.override.yml', 'compose.dev.yaml', 'compose.dev.local.yaml');
+    touch('compose.ci.yml');
+    expect(detectComposeFiles(dir, ['dev', 'ci']).map((f) => path.basename(f))).toEqual([
+      'compose.yaml',
+      'compose.override.yml',
+      'compose.dev.yaml',
+      'compose.dev.local.yaml',
+      'compose.ci.yml',
+    ]);
+  });
+
+  it('follows the docker-compose stem of the base file', () => {
+    touch('docker-compose.yml', 'docker-compose.dev.yml', 'compose.dev.yaml');
+    expect(detectComposeFiles(dir, ['dev']).map((f) => path.basename(f))).toEqual([
+      'docker-compose.yml',
+      'docker-compose.dev.yml',
+    ]);
+  });
+
+  it('leaves discovery to compose when no profile file exists', () => {
+    touch('compose.yaml', 'compose.override.yaml');
+    expect(detectComposeFiles(dir, ['dev'])).toEqual([]);
+  });
+
+  it('reads the service names declared one level below services', () => {
+    writeFileSync(
+      path.join(dir, 'compose.yaml'),
+      [
+        'name: app',
+        'services:',
+        '  # the API',
+        '  api:',
+        '    image: api',
+        '    environment:',
+        '      db: x',
+        '  "db.primary": { image: postgres }',
+        'volumes:',
+        '  data:',
+        '',
+      ].join('\n'),
+    );
+    writeFileSync(path.join(dir, 'compose.dev.yaml'), 'services:\n    api:\n    web:\n');
+    const files = ['compose.yaml', 'compose.dev.yaml', 'missing.yaml'].map((f) =>
+      path.join(dir, f),
+    );
+    expect(readComposeServices(files)).toEqual(['api', 'db.primary', 'web']);
+  });
+});
+
+describe('hasExplicitComposeFile', () => {
+  it('only looks at global options before the subcommand', () => {
+    expect(hasExplicitComposeFile(['-f', 'a.yaml', 'up'])).toBe(true);
+    expect(hasExplicitComposeFile(['-p', 'proj', '--file=a.yaml', 'up'])).toBe(true);
+    expect(hasExplicitComposeFile(['-p', '-f', 'up'])).toBe(false);
+    expect(hasExplicitComposeFile(['logs', '-f'])).toBe(false);
+  });
+});
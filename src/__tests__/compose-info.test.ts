@@ -0,0 +1,143 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { adaptComposeFlags, probeComposeBin } from '../compose.js';
+import { parseComposeVersion, probeCacheFile } from '../compose-info.js';
+
+describe('parseComposeVersion', () => {
+  it('identifies each flavour and its version', () => {
+    expect(parseComposeVersion(['docker', 'compose'], 'Docker Compose version v2.24.5\n')).toEqual({
+      flavour: 'docker-v2',
+      version: '2.24.5',
+      capabilities: { multipleEnvFiles: true, multipleProfiles: true },
+    });
+    expect(
+      parseComposeVersion(['docker-compose'], 'docker-compose version 1.29.2, build 5becea4c\n'),
+    ).toMatchObject({ flavour: 'docker-v1', version: '1.29.2' });
+    expect(
+      parseComposeVersion(
+        ['podman-compose'],
+        "podman-compose version: 1.0.6\n['podman', '--version', '']\nusing podman version: 4.9.3\n",
+      ),
+    ).toEqual({
+      flavour: 'podman-compose',
+      version: '1.0.6',
+      capabilities: { multipleEnvFiles: false, multipleProfiles: false },
+    });
+  });
+
+  it('takes the capabilities of the provider behind podman compose', () => {
+    const output =
+      '>>>> Executing external compose provider "/usr/bin/docker-compose". <<<<\n' +
+      'Docker Compose version v2.15.1\n';
+    expect(parseComposeVersion(['podman', 'compose'], output)).toEqual({
+      flavour: 'podman',
+      version: '2.15.1',
+      capabilities: { multipleEnvFiles: false, multipleProfiles: true },
+    });
+  });
+
+  it('treats unrecognised output as a fully capable unknown flavour', () => {
+    expect(parseComposeVersion(['my-compose'], 'my-compose 0.3.0')).toEqual({
+      flavour: 'unknown',
+      version: '0.3.0',
+      capabilities: { multipleEnvFiles: true, multipleProfiles: true },
+    });
+  });
+});
+
+describe('adaptComposeFlags', () => {
+  const envFiles = ['/w/.env', '/w/.env.dev', '/w/.env.dev.enc'];
+
+  it('keeps every flag the binary supports', () => {
+    const capabilities = { multipleEnvFiles: true, multipleProfiles: true };
+    expect(adaptComposeFlags(capabilities, envFiles, ['a', 'b'])).toEqual({
+      envFiles,
+      profiles: ['a', 'b'],
+      passEnv: false,
+      warnings: [],
+    });
+  });
+
+  it('drops repeated flags the binary does not support', () => {
+    const capabilities = { multipleEnvFiles: false, multipleProfiles: false };
+    const adapted = adaptComposeFlags(capabilities, envFiles, ['a', 'b']);
+    expect(adapted).toMatchObject({ envFiles: [], profiles: [], passEnv: true });
+    expect(adapted.warnings).toHaveLength(2);
+    expect(adaptComposeFlags(capabilities, ['/w/.env'], ['a'])).toMatchObject({
+      envFiles: ['/w/.env'],
+      profiles: ['a'],
+      passEnv: false,
+    });
+  });
+});
+
+describe.skipIf(process.platform === 'win32')('probe cache', () => {
+  let dir: string;
+  let compose: string;
+  let cacheFile: string;
+  const probe = () =>
+    probeComposeBin([compose], { cwd: dir, env: { PATH: process.env.PATH }, cacheFile });
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'cmpcat-probe-'));
+    compose = path.join(dir, 'compose');
+    cacheFile = path.join(dir, 'cache', 'probe-cache.json');
+    writeFileSync(
+      compose,
+      '#!/bin/sh\necho probed >> "$(dirname "$0")/calls"\necho "Docker Compose version v2.20.0"\n',
+      {
+        mode: 0o755,
+      },
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reuses a probe until the binary changes', () => {
+    const calls = () => readFileSync(path.join(dir, 'calls'), 'utf8').split('\n').filter(Boolean);
+    expect(probe()).toMatchObject({ available: true, flavour: 'docker-v2', version: '2.20.0' });
+    expect(probe()).toMatchObject({ available: true, flavour: 'docker-v2', cached: true });
+    expect(calls()).toHaveLength(1);
+
+    utimesSync(compose, new Date(), new Date(Date.now() + 10_000));
+    expect(probe().cached).toBeUndefined();
+    expect(calls()).toHaveLength(2);
+  });
+
+  it('probes docker compose again when only its plugin changes', () => {
+    const docker = path.join(dir, 'docker');
+    const plugin = path.join(dir, 'docker-config', 'cli-plugins', 'docker-compose');
+    renameSync(compose, docker);
+    mkdirSync(path.dirname(plugin), { recursive: true });
+    writeFileSync(plugin, '');
+    const env = {
+      PATH: `${dir}${path.delimiter}${process.env.PATH}`,
+      DOCKER_CONFIG: path.dirname(path.dirname(plugin)),
+    };
+    const probeDocker = () => probeComposeBin(['docker', 'compose'], { cwd: dir, env, cacheFile });
+    expect(probeDocker().cached).toBeUndefined();
+    expect(probeDocker().cached).toBe(true);
+
+    utimesSync(plugin, new Date(), new Date(Date.now() + 10_000));
+    expect(probeDocker().cached).toBeUndefined();
+  });
+
+  it('writes the cache to the given file or nowhere', () => {
+    const env = { XDG_CACHE_HOME: dir };
+    expect(probeCacheFile(env)).toBe(path.join(dir, 'compose-cat', 'probe-cache.json'));
+    expect(probeCacheFile(env, cacheFile)).toBe(cacheFile);
+    expect(probeCacheFile(env, false)).toBeUndefined();
+  });
+});
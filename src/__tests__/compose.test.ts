@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { composeSubcommandIndex, downInvocation } from '../compose.js';
+
+describe('compose invocations', () => {
+  it('finds the subcommand after global options', () => {
+    expect(composeSubcommandIndex(['--profile', 'dev', '-f', 'up.yaml', 'up'])).toBe(4);
+    expect(composeSubcommandIndex(['--dry-run', 'ps'])).toBe(1);
+    expect(composeSubcommandIndex(['--env-file', '.env'])).toBe(-1);
+  });
+
+  it('derives down only for foreground up', () => {
+    expect(downInvocation(['-p', 'demo', 'up', '--build'])).toEqual(['-p', 'demo', 'down']);
+    expect(downInvocation(['up', '-d'])).toBeUndefined();
+    expect(downInvocation(['up', '--detach'])).toBeUndefined();
+    expect(downInvocation(['up', '--detach=true'])).toBeUndefined();
+    expect(downInvocation(['up', '--detach=false'])).toEqual(['down']);
+    expect(downInvocation(['up', '-d', '--detach=false'])).toEqual(['down']);
+    expect(downInvocation(['up', '--wait'])).toBeUndefined();
+    expect(downInvocation(['up', '--wait=true', '--wait-timeout', '30'])).toBeUndefined();
+    expect(downInvocation(['up', '--wait=false'])).toEqual(['down']);
+    expect(downInvocation(['up', '-Vd'])).toBeUndefined();
+    expect(downInvocation(['up', '-dt5'])).toBeUndefined();
+    expect(downInvocation(['up', '-t5d'])).toEqual(['down']);
+    expect(downInvocation(['up', '-xd'])).toEqual(['down']);
+    expect(downInvocation(['ps'])).toBeUndefined();
+  });
+});
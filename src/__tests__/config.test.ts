@@ -0,0 +1,52 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { findConfigFile, loadConfig, resolveConfigOptions, validateConfig } from '../config.js';
+
+describe('config', () => {
+  let root: string | undefined;
+
+  afterEach(() => {
+    if (root) rmSync(root, { recursive: true, force: true });
+    root = undefined;
+  });
+
+  it('walks up from the cwd to find the nearest config file', () => {
+    root = mkdtempSync(path.join(tmpdir(), 'cmpcat-config-'));
+    const nested = path.join(root, 'a', 'b');
+    mkdirSync(nested, { recursive: true });
+    writeFileSync(path.join(root, '.composecatrc'), '{"profile": "dev"}');
+
+    expect(findConfigFile(nested)).toBe(path.join(root, '.composecatrc'));
+    expect(loadConfig(nested).config).toEqual({ profile: ['dev'] });
+  });
+
+  it('reports unknown keys and wrong types', () => {
+    const { errors } = validateConfig(
+      { cmpPrefix: 1, nope: true, profiles: { dev: { profile: 'x', cmpBin: [1] } } },
+      'cfg',
+    );
+    expect(errors).toEqual([
+      'cfg: "cmpPrefix" must be a string',
+      'cfg: unknown key "nope"',
+      'cfg: profiles.dev: unknown key "profile"',
+      'cfg: profiles.dev: "cmpBin" must be a string or an array of strings',
+    ]);
+  });
+
+  it('applies profile overrides in order', () => {
+    const { config } = validateConfig(
+      {
+        cmpBin: 'docker compose',
+        cmpHook: ['up'],
+        profiles: { dev: { cmpBin: 'podman compose' }, ci: { cmpHook: 'ci' } },
+      },
+      'cfg',
+    );
+    expect(resolveConfigOptions(config, ['dev', 'ci'])).toEqual({
+      cmpBin: ['podman compose'],
+      cmpHook: ['ci'],
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { existsSync, mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { formatDoctorReport, resolveEnvironment, runDoctor } from '../index.js';
+
+describe('runDoctor', () => {
+  let dir: string;
+  const env = () => ({ PATH: process.env.PATH, XDG_CACHE_HOME: path.join(dir, '.cache') });
+  const findings = (section: string) =>
+    runDoctor({ cwd: dir, env: env(), cmpBin: ['true'] })
+      .findings.filter((f) => f.section === section)
+      .map((f) => [f.severity, f.subject, f.message]);
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'cmpcat-doctor-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports dotenv lines the parser ignores and unclosed quotes', () => {
+    writeFileSync(path.join(dir, '.env'), 'A=1\n# note\nnot a pair\nB="two\nlines"\nC=\'open\n');
+    expect(findings('dotenv')).toEqual([
+      ['error', '.env', 'line 3: not KEY=VALUE, the line is ignored'],
+      ['error', '.env', "line 6: ' quote is never closed"],
+    ]);
+  });
+
+  it('lists env providers without running them', () => {
+    writeFileSync(path.join(dir, '.env.sh'), '#!/bin/sh\ntouch provider-ran\n', { mode: 0o755 });
+    expect(findings('dotenv')).toEqual([
+      ['info', '.env.sh', 'env provider, would run (not run by the doctor)'],
+    ]);
+    expect(existsSync(path.join(dir, 'provider-ran'))).toBe(false);
+  });
+
+  it('fails to resolve a dotenv file that cannot be read', () => {
+    mkdirSync(path.join(dir, '.env'));
+    const resolved = resolveEnvironment({ cwd: dir, env: env() });
+    expect(resolved.errors).toEqual([expect.stringContaining(`failed to read ${dir}/.env`)]);
+  });
+
+  it('flags misnamed, non-executable and other-platform hooks', () => {
+    writeFileSync(path.join(dir, 'cmp.pree.sh'), '#!/bin/sh\n', { mode: 0o755 });
+    writeFileSync(path.join(dir, 'cmp.pre.sh'), 'echo hi\n', { mode: 0o644 });
+    writeFileSync(path.join(dir, 'cmp.pre.+node.js'), 'console.log(1)\n', { mode: 0o644 });
+    writeFileSync(path.join(dir, 'cmp.post.win32.sh'), '#!/bin/sh\n', { mode: 0o755 });
+    mkdirSync(path.join(dir, '.cmp/hooks/pst'), { recursive: true });
+    const issues = findings('hooks');
+    expect(issues).toEqual(
+      expect.arrayContaining([
+        ['warn', 'cmp.pree.sh', expect.stringContaining('matches no hook pattern')],
+        ['error', 'cmp.pre.sh', expect.stringContaining('is not executable')],
+        ['warn', 'cmp.pre.sh', expect.stringContaining('has no #! line')],
+        ['warn', path.join('.cmp', 'hooks', 'pst'), expect.stringContaining('stage directory')],
+      ]),
+    );
+    expect(issues.filter(([, subject]) => subject === 'cmp.pre.+node.js')).toEqual([]);
+    if (process.platform !== 'win32') {
+      expect(issues).toContainEqual(['info', 'cmp.post.win32.sh', 'only runs on win32']);
+    }
+  });
+
+  it.skipIf(process.platform === 'win32')('reports broken symlinks among hooks', () => {
+    mkdirSync(path.join(dir, '.cmp/hooks/post'), { recursive: true });
+    symlinkSync(path.join(dir, 'missing.sh'), path.join(dir, 'cmp.pre.sh'));
+    symlinkSync(path.join(dir, 'missing'), path.join(dir, '.cmp/hooks/pre'));
+    symlinkSync(path.join(dir, 'missing.sh'), path.join(dir, '.cmp/hooks/post/10-x.sh'));
+    const broken = 'cannot be read (broken symlink?)';
+    expect(findings('hooks')).toEqual(
+      expect.arrayContaining([
+        ['error', 'cmp.pre.sh', broken],
+        ['error', path.join('.cmp', 'hooks', 'pre'), broken],
+        ['error', path.join('.cmp', 'hooks', 'post', '10-x.sh'), broken],
+      ]),
+    );
+  });
+
+  it('warns about generated variables set in dotenv files and ignored default-prefix ones', () => {
+    writeFileSync(path.join(dir, '.env'), 'APP_PROFILES=dev\n');
+    const report = runDoctor({
+      cwd: dir,
+      env: { ...env(), CMPCAT_COMPOSE_BIN: 'docker-compose' },
+      cmpBin: ['true'],
+      cmpPrefix: 'APP_',
+    });
+    expect(report.findings.filter((f) => f.section === 'prefix')).toEqual([
+      expect.objectContaining({ severity: 'warn', subject: 'APP_PROFILES' }),
+      expect.objectContaining({ severity: 'warn', subject: 'CMPCAT_COMPOSE_BIN' }),
+    ]);
+    expect(report.errors).toBe(0);
+    expect(formatDoctorReport(report, 'text')).toMatch(/0 errors, 2 warnings$/);
+  });
+
+  it('counts a missing compose binary as an error', () => {
+    const report = runDoctor({ cwd: dir, env: env(), cmpBin: ['false'] });
+    expect(report.errors).toBe(2);
+    expect(report.findings.filter((f) => f.section === 'compose')).toEqual([
+      expect.objectContaining({ severity: 'error', subject: 'false' }),
+      expect.objectContaining({ severity: 'error', message: 'no compose binary detected' }),
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { resolveProjects, runEach } from '../index.js';
+
+describe('cmp-each', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'cmpcat-each-'));
+    for (const name of ['services/api', 'services/db', 'services/.cache', 'web']) {
+      mkdirSync(path.join(dir, name), { recursive: true });
+    }
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('expands globs and lets a later definition name a matched directory', () => {
+    const { projects, errors } = resolveProjects(
+      ['services/*', { dir: 'services/api', name: 'api', dependsOn: ['services/db'] }, 'web'],
+      dir,
+    );
+    expect(errors).toEqual([]);
+    expect(projects.map((p) => [p.name, path.relative(dir, p.dir), p.dependsOn])).toEqual([
+      ['api', path.join('services', 'api'), ['services/db']],
+      ['services/db', path.join('services', 'db'), []],
+      ['web', 'web', []],
+    ]);
+  });
+
+  it('reports missing directories, unknown dependencies and cycles', () => {
+    const { errors } = resolveProjects(
+      [
+        'nope',
+        'apps/*',
+        { dir: 'services/api', name: 'api', dependsOn: ['db', 'cache'] },
+        { dir: 'services/db', name: 'db', dependsOn: ['api'] },
+      ],
+      dir,
+    );
+    expect(errors).toEqual([
+      'project directory "nope" not found',
+      'project glob "apps/*" matches no directory',
+      'project "api" depends on unknown project "cache"',
+      'project "api" depends on itself (api -> db -> api)',
+      'project "db" depends on itself (db -> api -> db)',
+    ]);
+  });
+
+  it('runs every project in its directory, after its dependencies, and skips dependents of failures', async () => {
+    const bin = path.join(dir, 'fake-cat.sh');
+    writeFileSync(
+      bin,
+      '#!/bin/sh\necho "$(basename "$PWD") $*"\necho oops >&2\n[ "$(basename "$PWD")" = web ] && exit 4\nexit 0\n',
+      { mode: 0o755 },
+    );
+    writeFileSync(
+      path.join(dir, 'compose-cat.config.json'),
+      JSON.stringify({
+        projects: [
+          { dir: 'services/api', name: 'api', dependsOn: ['db'] },
+          { dir: 'services/db', name: 'db' },
+          'web',
+          { dir: 'services/.cache', name: 'cache', dependsOn: ['web'] },
+        ],
+      }),
+    );
+    const lines: string[] = [];
+    const result = await runEach({
+      cwd: path.join(dir, 'web'),
+      env: { PATH: process.env.PATH },
+      bin: [bin],
+      args: ['up', '-d'],
+      parallel: 2,
+      onLine: (project, line, stream) => lines.push(`${project} ${stream}: ${line}`),
+    });
+    expect(result.errors).toEqual([]);
+    expect(result.exitCode).toBe(4);
+    expect(result.projects.map((p) => [p.name, p.status, p.exitCode, p.note])).toEqual([
+      ['api', 'ok', 0, undefined],
+      ['db', 'ok', 0, undefined],
+      ['web', 'failed', 4, undefined],
+      ['cache', 'skipped', undefined, 'web did not succeed'],
+    ]);
+    expect(lines).toEqual(
+      expect.arrayContaining(['api stdout: api up -d', 'db stderr: oops', 'web stdout: web up -d']),
+    );
+    expect(lines.indexOf('db stdout: db up -d')).toBeLessThan(
+      lines.indexOf('api stdout: api up -d'),
+    );
+  });
+});
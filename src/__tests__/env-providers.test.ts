@@ -0,0 +1,34 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import {
+  planGeneratedEnvFiles,
+  removeGeneratedEnvFiles,
+  writeGeneratedEnvFiles,
+} from '../env-providers.js';
+import { expandValue } from '../expand.js';
+
+// Read a generated line back like compose does: single quotes are literal, double quotes unescape
+// and interpolate, with `$$` for a literal `$`.
+function readEnvLine(line: string): [string, string] {
+  const [, key, raw] = /^([^=]+)=(.*)$/.exec(line)!;
+  if (raw.startsWith("'")) return [key, raw.slice(1, -1)];
+  return [key, expandValue(JSON.parse(raw), () => 'EXPANDED')];
+}
+
+describe('generated env files', () => {
+  it('reads back every provider value unchanged', () => {
+    const values = {
+      TOKEN: 'x$y${HOME}',
+      QUOTED: "it's $HOME, ${USER} and $$",
+      MULTILINE: 'a\n"b"\\$c',
+    };
+    const files = planGeneratedEnvFiles({ '/w/.env.sh': values });
+    writeGeneratedEnvFiles(files);
+    try {
+      const lines = readFileSync(files[0].file, 'utf8').trimEnd().split('\n');
+      expect(Object.fromEntries(lines.map(readEnvLine))).toEqual(values);
+    } finally {
+      removeGeneratedEnvFiles(files);
+    }
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildEnvReport,
+  EnvProvenance,
+  formatEnvReport,
+  globToRegExp,
+  PROCESS_ENV_SOURCE,
+  recordEnvSources,
+} from '../env-report.js';
+
+describe('env report', () => {
+  const provenance: EnvProvenance = {};
+  recordEnvSources(provenance, { DB_HOST: 'localhost', DB_PASSWORD: 'os' }, PROCESS_ENV_SOURCE);
+  recordEnvSources(provenance, { DB_HOST: 'db', DB_PASSWORD: 'hunter2' }, '/p/.env');
+  recordEnvSources(provenance, { DB_HOST: 'db.dev' }, '/p/.env.dev');
+  const mergedEnv = { DB_HOST: 'db.dev', DB_PASSWORD: 'hunter2', CMPCAT_PROFILES: 'dev' };
+
+  it('reports the winning source and the chain it overrode', () => {
+    const [host] = buildEnvReport(mergedEnv, provenance, { keys: ['DB_H*'] });
+    expect(host).toEqual({
+      key: 'DB_HOST',
+      value: 'db.dev',
+      source: '/p/.env.dev',
+      overrides: [
+        { source: PROCESS_ENV_SOURCE, value: 'localhost' },
+        { source: '/p/.env', value: 'db' },
+      ],
+    });
+  });
+
+  it('masks secret-looking keys unless disabled', () => {
+    const [masked] = buildEnvReport(mergedEnv, provenance, { keys: ['*PASSWORD'] });
+    expect(masked.value).toBe('********');
+    expect(masked.overrides.map((o) => o.value)).toEqual(['********']);
+    const [shown] = buildEnvReport(mergedEnv, provenance, { keys: ['*PASSWORD'], mask: false });
+    expect(shown.value).toBe('hunter2');
+  });
+
+  it('attributes values set after merging to compose-cat', () => {
+    const entries = buildEnvReport(mergedEnv, provenance, { keys: ['CMPCAT_*'] });
+    expect(formatEnvReport(entries, 'dotenv')).toBe('# compose-cat\nCMPCAT_PROFILES=dev');
+  });
+
+  it('treats glob metacharacters literally except * and ?', () => {
+    expect(globToRegExp('A.B?').test('A.BC')).toBe(true);
+    expect(globToRegExp('A.B?').test('AxBC')).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { applyEnvSchema, validateEnvSchema } from '../env-schema.js';
+import { resolveEnvironment } from '../environment.js';
+import { encryptText, generateKey, parseKey } from '../secrets.js';
+
+describe('env schema', () => {
+  it('rejects malformed schema entries', () => {
+    const { errors } = validateEnvSchema(
+      { A: { type: 'float' }, B: { type: 'enum' }, C: { type: 'regex', pattern: '(' }, D: 1 },
+      'schema',
+    );
+    expect(errors).toEqual([
+      'schema: A: "type" must be one of string, int, port, bool, url, enum, regex',
+      'schema: B: "enum" requires "values"',
+      'schema: C: "pattern" is not a valid regular expression',
+      'schema: D: must be an object',
+    ]);
+  });
+
+  it('applies defaults and reports every violation', () => {
+    const { schema } = validateEnvSchema(
+      {
+        PORT: { type: 'port' },
+        URL: { type: 'url', required: true, description: 'public URL' },
+        DEBUG: { type: 'bool', default: 'false' },
+        TAG: { type: 'regex', pattern: 'v\\d+' },
+        API_TOKEN: { type: 'int' },
+      },
+      'schema',
+    );
+    const { defaults, violations } = applyEnvSchema(
+      { PORT: '70000', TAG: 'v1x', API_TOKEN: 'abc' },
+      schema,
+    );
+    expect(defaults).toEqual({ DEBUG: 'false' });
+    expect(violations).toEqual([
+      'PORT: expected a port (1-65535), got "70000"',
+      'URL: required but not set (public URL)',
+      'TAG: expected to match /v\\d+/, got "v1x"',
+      'API_TOKEN: expected an integer',
+    ]);
+  });
+
+  it('never prints decrypted values in violations', () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'cmpcat-schema-'));
+    try {
+      const secretsKey = generateKey();
+      const { key } = parseKey(secretsKey, 'test');
+      writeFileSync(path.join(dir, '.env.enc'), encryptText('DB_URL=hunter2@db\n', key));
+      writeFileSync(path.join(dir, '.env.schema.json'), '{ "DB_URL": { "type": "url" } }\n');
+      const environment = resolveEnvironment({ cwd: dir, env: { CMPCAT_SECRETS_KEY: secretsKey } });
+      expect(environment.errors).toEqual([]);
+      expect(environment.schemaViolations).toEqual(['DB_URL: expected a URL']);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,91 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { captureCommand, formatCommand, spawnCommand, splitCommand } from '../exec.js';
+import { createLogger } from '../logger.js';
+
+const TRICKY_ARGS = [
+  'with space',
+  "it's",
+  '"double"',
+  '$(touch pwned)',
+  '`id`',
+  'a;b && c | d',
+  '$HOME',
+  '*',
+  '',
+  'back\\slash',
+  'line\nbreak',
+];
+
+describe('splitCommand', () => {
+  it('splits words like a POSIX shell without expanding anything', () => {
+    expect(splitCommand('docker compose')).toEqual(['docker', 'compose']);
+    expect(splitCommand("  '/opt/my tools/compose'  --verbose ")).toEqual([
+      '/opt/my tools/compose',
+      '--verbose',
+    ]);
+    expect(splitCommand('"a \\"b\\" $c" d\\ e \'\'')).toEqual(['a "b" $c', 'd e', '']);
+    expect(splitCommand('it"s"')).toEqual(['its']);
+  });
+
+  it('rejects unterminated quotes', () => {
+    expect(splitCommand("docker 'compose")).toBeUndefined();
+    expect(splitCommand('"docker')).toBeUndefined();
+  });
+
+  it('reads back what formatCommand quoted', () => {
+    const command = formatCommand({ bin: ['/opt/my tools/compose'], args: TRICKY_ARGS });
+    expect(splitCommand(command)).toEqual(['/opt/my tools/compose', ...TRICKY_ARGS]);
+  });
+});
+
+describe.skipIf(process.platform === 'win32')('spawnCommand', () => {
+  let dir: string;
+  // Writes its arguments as JSON to the file given as the first argument.
+  const recorder = [
+    process.execPath,
+    '-e',
+    'require("fs").writeFileSync(...process.argv.slice(1, 2), JSON.stringify(process.argv.slice(2)))',
+  ];
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'cmpcat exec '));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it.each([false, true])('passes every argument through unchanged (shell: %s)', async (shell) => {
+    const out = path.join(dir, 'args.json');
+    // In shell mode the bin is shell text, used verbatim.
+    const bin = shell ? [formatCommand({ bin: recorder, args: [] })] : recorder;
+    const result = await spawnCommand(
+      { bin, args: [out, ...TRICKY_ARGS] },
+      { cwd: dir, env: process.env, shell },
+    );
+    expect(result.code).toBe(0);
+    expect(JSON.parse(readFileSync(out, 'utf8'))).toEqual(TRICKY_ARGS);
+    expect(() => readFileSync(path.join(dir, 'pwned'))).toThrow();
+  });
+
+  it('reports a missing program like a shell does', async () => {
+    const result = await spawnCommand(
+      { bin: [path.join(dir, 'missing')], args: [] },
+      { env: process.env },
+    );
+    expect(result.code).toBe(127);
+  });
+
+  it('reports a program that spawn rejects up front as a failed start', async () => {
+    // Like EINVAL for a .cmd file on Windows, a NUL byte makes spawn throw instead of emit.
+    const lines: string[] = [];
+    const logger = createLogger({ sink: (line) => lines.push(line) });
+    const result = await spawnCommand({ bin: ['bad\0name'], args: [] }, { env: {}, logger });
+    expect(result).toEqual({ code: 1, timedOut: false, interrupted: false });
+    expect(lines.at(-1)).toContain('failed to start');
+    expect(captureCommand({ bin: ['bad\0name'], args: [] }, { env: {} }).code).toBe(1);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { expandEnv, expandValue } from '../expand.js';
+
+describe('expandValue', () => {
+  const lookup = (name: string) => ({ HOST: 'db', EMPTY: '' })[name];
+
+  it('supports defaults, nested references and $$ escapes', () => {
+    expect(expandValue('pg://${HOST}:${PORT:-5432}', lookup)).toBe('pg://db:5432');
+    expect(expandValue('${EMPTY:-x}|${EMPTY-x}|${NOPE-${HOST}}', lookup)).toBe('x||db');
+    expect(expandValue('$$HOST ${HOST}$', lookup)).toBe('$HOST db$');
+  });
+
+  it('fails on required variables and malformed references', () => {
+    expect(() => expandValue('${EMPTY:?must be set}', lookup)).toThrow('EMPTY: must be set');
+    expect(() => expandValue('${NOPE?}', lookup)).toThrow('NOPE: required variable is not set');
+    expect(() => expandValue('${HOST', lookup)).toThrow('unterminated');
+    expect(() => expandValue('${HO ST}', lookup)).toThrow('invalid reference');
+  });
+});
+
+describe('expandEnv', () => {
+  it('resolves references against the layered values in dependency order', () => {
+    const env = { URL: '${HOST}:${PORT}', HOST: '${NAME}.local', NAME: 'api', PORT: '80' };
+    const { values, errors } = expandEnv(env, ['URL', 'HOST']);
+    expect(errors).toEqual([]);
+    expect(values).toEqual({ URL: 'api.local:80', HOST: 'api.local' });
+  });
+
+  it('leaves values outside the expanded keys untouched', () => {
+    expect(expandEnv({ A: '${B}', B: '${C}', C: 'c' }, ['A']).values).toEqual({ A: '${C}' });
+  });
+
+  it('reports each cycle once', () => {
+    const { errors } = expandEnv({ A: '${B}', B: '${A}', C: '${A}' }, ['A', 'B', 'C']);
+    expect(errors).toEqual(['A: reference cycle A -> B -> A']);
+  });
+});
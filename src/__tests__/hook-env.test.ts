@@ -0,0 +1,20 @@
+import { appendFileSync, existsSync, rmSync } from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { collectHookEnv, createHookEnvFile } from '../hook-env.js';
+
+describe('hook env files', () => {
+  it('parses exported lines and removes the temp directory', () => {
+    const file = createHookEnvFile();
+    appendFileSync(file, 'IMAGE_TAG=abc123\n');
+    appendFileSync(file, 'NOTE="two\nlines"\n');
+    expect(collectHookEnv(file)).toEqual({ IMAGE_TAG: 'abc123', NOTE: 'two\nlines' });
+    expect(existsSync(path.dirname(file))).toBe(false);
+  });
+
+  it('treats a removed file as no exports', () => {
+    const file = createHookEnvFile();
+    rmSync(file);
+    expect(collectHookEnv(file)).toEqual({});
+  });
+});
@@ -0,0 +1,128 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  discoverHooks,
+  formatHookSummary,
+  HookDef,
+  hookCommandLine,
+  hookFilterReason,
+} from '../hooks.js';
+
+describe('discoverHooks', () => {
+  let dir: string;
+  const write = (name: string, content = '') => {
+    mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+    writeFileSync(path.join(dir, name), content);
+  };
+  const names = (stage: 'pre' | 'post', cmd?: string) =>
+    discoverHooks(stage, cmd, { cwd: dir }).hooks.map((h) => path.relative(dir, h.file));
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'cmpcat-hooks-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('runs root hooks first, then directory hooks by numeric prefix', () => {
+    write('cmp.pre.sh');
+    write('.cmp/hooks/pre/10-migrate.sh');
+    write('.cmp/hooks/pre/2-build.sh');
+    write('.cmp/hooks/pre/seed.sh');
+    write('.cmp/hooks/post/10-notify.sh');
+    expect(names('pre')).toEqual([
+      'cmp.pre.sh',
+      '.cmp/hooks/pre/2-build.sh',
+      '.cmp/hooks/pre/10-migrate.sh',
+      '.cmp/hooks/pre/seed.sh',
+    ]);
+  });
+
+  it('only picks named hooks for the requested name', () => {
+    write('cmp.pre.up.sh');
+    write('cmp.pre.down.sh');
+    write('.cmp/hooks/pre.up/10-wait.sh');
+    expect(names('pre', 'up')).toEqual(['cmp.pre.up.sh', '.cmp/hooks/pre.up/10-wait.sh']);
+    expect(names('pre')).toEqual([]);
+  });
+
+  it('reads options from the header comment and the sidecar file', () => {
+    write('.cmp/hooks/pre/10-a.sh', '#!/bin/sh\n# cmp-hook: timeout=30s continue-on-error\n');
+    write('.cmp/hooks/pre/20-b.sh', '#!/bin/sh\n');
+    write('.cmp/hooks/pre/20-b.sh.json', JSON.stringify({ timeout: 2, always: true }));
+    const { hooks, errors } = discoverHooks('pre', undefined, { cwd: dir });
+    expect(errors).toEqual([]);
+    expect(hooks.map((h) => h.options)).toEqual([
+      { timeoutMs: 30_000, continueOnError: true, always: false },
+      { timeoutMs: 2000, continueOnError: false, always: true },
+    ]);
+  });
+
+  it('reports invalid hook options', () => {
+    write('.cmp/hooks/pre/10-a.sh', '# cmp-hook: timeout=soon retry\n');
+    const { errors } = discoverHooks('pre', undefined, { cwd: dir });
+    expect(errors).toEqual([
+      expect.stringContaining('invalid timeout "soon"'),
+      expect.stringContaining('unknown cmp-hook option "retry"'),
+    ]);
+  });
+});
+
+describe('hook filters and summary', () => {
+  const hook = {
+    stage: 'pre',
+    file: '/work/.cmp/hooks/pre/10-migrate.sh',
+  } as HookDef;
+
+  it('matches --cmp-only-hooks globs against the file name or relative path', () => {
+    expect(hookFilterReason(hook, { only: ['*-migrate.sh'] }, '/work')).toBeUndefined();
+    expect(hookFilterReason(hook, { only: ['.cmp/hooks/pre/*'] }, '/work')).toBeUndefined();
+    expect(hookFilterReason(hook, { only: ['seed*'] }, '/work')).toBe('not in --cmp-only-hooks');
+    expect(hookFilterReason(hook, { skipAll: true }, '/work')).toBe('--cmp-skip-hooks');
+  });
+
+  it('runs ps1, cmd and bat hooks through their interpreter on Windows', () => {
+    const windowsHook = (file: string, binary?: string) =>
+      ({ stage: 'pre', file, ext: path.extname(file).slice(1), binary }) as HookDef;
+    expect(hookCommandLine(windowsHook('C:\\w\\cmp.pre.win32.ps1'), 'win32')).toEqual({
+      bin: ['powershell', '-NoProfile', '-File'],
+      args: ['C:\\w\\cmp.pre.win32.ps1'],
+    });
+    expect(hookCommandLine(windowsHook('C:\\w\\cmp.pre.BAT'), 'win32').bin).toEqual([
+      'cmd',
+      '/d',
+      '/c',
+    ]);
+    expect(hookCommandLine(windowsHook('C:\\w\\cmp.pre.win32+pwsh.ps1', 'pwsh'), 'win32')).toEqual({
+      bin: ['pwsh'],
+      args: ['C:\\w\\cmp.pre.win32+pwsh.ps1'],
+    });
+    expect(hookCommandLine(windowsHook('/w/cmp.pre.cmd'), 'linux').bin).toEqual([]);
+  });
+
+  it('renders an aligned table', () => {
+    const lines = formatHookSummary(
+      [
+        { stage: 'pre', file: hook.file, status: 'ok', durationMs: 1500 },
+        {
+          stage: 'post',
+          name: 'up',
+          file: '/work/cmp.post.up.sh',
+          status: 'failed',
+          exitCode: 2,
+          durationMs: 12,
+          note: 'continue-on-error',
+        },
+      ],
+      '/work',
+    );
+    expect(lines).toEqual([
+      'STAGE    HOOK                          STATUS                              DURATION',
+      'pre      .cmp/hooks/pre/10-migrate.sh  ok                                  1.5s',
+      'post up  cmp.post.up.sh                failed (exit 2, continue-on-error)  12ms',
+    ]);
+  });
+});
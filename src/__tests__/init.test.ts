@@ -0,0 +1,75 @@
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { initProject, listDotenvProfiles, resolveOptions } from '../index.js';
+
+describe('cmp-init scaffolding', () => {
+  let dir: string;
+  const env = {};
+  const read = (name: string) => readFileSync(path.join(dir, name), 'utf8');
+  const actions = (result: ReturnType<typeof initProject>) =>
+    Object.fromEntries(result.files.map((f) => [path.relative(dir, f.file), f.action]));
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'cmpcat-init-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes dotenv templates, .gitignore entries, hooks and the config file', () => {
+    const result = initProject({ cwd: dir, env, profile: ['dev,prod'], config: true });
+    expect(result.errors).toEqual([]);
+    expect(actions(result)).toEqual({
+      '.env': 'create',
+      '.env.local': 'create',
+      '.env.dev': 'create',
+      '.env.prod': 'create',
+      '.gitignore': 'create',
+      'cmp.pre.sh': 'create',
+      'cmp.post.sh': 'create',
+      'compose-cat.config.json': 'create',
+    });
+    expect(read('.env')).toContain(`COMPOSE_PROJECT_NAME=${path.basename(dir).toLowerCase()}`);
+    expect(read('.gitignore')).toContain('.env*.local\n.env.key\n');
+    expect(statSync(path.join(dir, 'cmp.pre.sh')).mode & 0o111).not.toBe(0);
+    expect(JSON.parse(read('compose-cat.config.json'))).toEqual({ profile: ['dev'] });
+    expect(listDotenvProfiles(resolveOptions({ cwd: dir, env }))).toEqual(['dev', 'prod']);
+  });
+
+  it('never replaces existing files without force and only extends .gitignore', () => {
+    writeFileSync(path.join(dir, '.env'), 'KEEP=1\n');
+    writeFileSync(path.join(dir, '.gitignore'), 'node_modules\n.env.key');
+    const options = { cwd: dir, env, cmpDotenvPrefix: '.cfg', hooks: false };
+
+    const first = initProject({ ...options, cmpDotenvPrefix: '.env' });
+    expect(first.errors).toEqual([]);
+    expect(actions(first)).toMatchObject({ '.env': 'skip', '.gitignore': 'append' });
+    expect(read('.env')).toBe('KEEP=1\n');
+    expect(read('.gitignore')).toBe(
+      'node_modules\n.env.key\n\n# compose-cat: machine-specific dotenv files and the secrets key\n.env*.local\n',
+    );
+    expect(actions(initProject({ ...options, cmpDotenvPrefix: '.env' }))['.gitignore']).toBe(
+      'skip',
+    );
+
+    const forced = initProject({ ...options, cmpDotenvPrefix: '.env', force: true });
+    expect(actions(forced)['.env']).toBe('overwrite');
+    expect(read('.env')).not.toContain('KEEP=1');
+
+    writeFileSync(path.join(dir, '.composecatrc'), '{}\n');
+    const config = initProject({ ...options, cmpDotenvPrefix: '.env', config: true, force: true });
+    expect(actions(config)['.composecatrc']).toBe('overwrite');
+    expect(actions(config)).not.toHaveProperty(['compose-cat.config.json']);
+    expect(JSON.parse(read('.composecatrc'))).toEqual({ profile: ['dev'] });
+
+    expect(Object.keys(actions(initProject(options)))).toEqual([
+      '.cfg',
+      '.cfg.local',
+      '.cfg.dev',
+      '.gitignore',
+    ]);
+  });
+});
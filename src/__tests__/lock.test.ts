@@ -0,0 +1,89 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LOCK_FILE_NAME, LockFile, run, writeLockFile } from '../index.js';
+
+describe('lock file', () => {
+  let dir: string;
+  let compose: string;
+  let env: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'cmpcat-lock-'));
+    env = { PATH: process.env.PATH, XDG_CACHE_HOME: path.join(dir, '.cache') };
+    compose = path.join(dir, 'fake-compose.sh');
+    // `config` prints the image built from the env compose gets, like compose interpolation would.
+    writeFileSync(
+      compose,
+      [
+        '#!/bin/sh',
+        '[ "$1" = version ] && { echo "Docker Compose version v2.24.5"; exit 0; }',
+        'while [ $# -gt 0 ]; do',
+        '  case "$1" in',
+        '    --env-file) . "$2"; shift ;;',
+        '    config) printf "services:\\n  app:\\n    image: app:%s  \\r\\n    working_dir: %s\\n    scale: 1\\n    environment:\\n      API_TOKEN: \\"%s\\"\\n      DB_PASSWORD: %s\\n      DB_URL: postgres://app:%s@db\\n" "$TAG" "$PWD" "$API_TOKEN" "$DB_PASSWORD" "$DB_PASSWORD"; exit 0 ;;',
+        '    *) echo ran > ran.txt; exit 0 ;;',
+        '  esac',
+        '  shift',
+        'done',
+        '',
+      ].join('\n'),
+      { mode: 0o755 },
+    );
+    writeFileSync(path.join(dir, '.env'), 'TAG=1.0\nDB_PASSWORD=hunter2\nAPI_TOKEN=1\n');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records env file hashes, non-secret values, the binary and the masked compose config', () => {
+    const { file, lock, errors } = writeLockFile({ cwd: dir, env, cmpBin: [compose] });
+    expect(errors).toEqual([]);
+    expect(file).toBe(path.join(dir, LOCK_FILE_NAME));
+    expect(JSON.parse(readFileSync(path.join(dir, LOCK_FILE_NAME), 'utf8'))).toEqual(lock);
+    expect(lock).toEqual<LockFile>({
+      version: 1,
+      compose: { bin: compose, flavour: 'docker-v2', version: '2.24.5' },
+      envFiles: { '.env': expect.stringMatching(/^[0-9a-f]{64}$/) },
+      env: { TAG: '1.0' },
+      composeConfig: [
+        'services:',
+        '  app:',
+        '    image: app:1.0',
+        '    working_dir: <cwd>',
+        '    scale: 1',
+        '    environment:',
+        '      API_TOKEN: ********',
+        '      DB_PASSWORD: ********',
+        '      DB_URL: postgres://app:********@db',
+        '',
+      ].join('\n'),
+    });
+  });
+
+  it('fails a frozen run with the differences before anything runs', async () => {
+    expect(writeLockFile({ cwd: dir, env, cmpBin: [compose] }).errors).toEqual([]);
+    const frozen = { cwd: dir, env, cmpBin: [compose], composeArgs: ['up'], frozen: true };
+    const unchanged = await run(frozen);
+    expect(unchanged.errors).toEqual([]);
+    expect(unchanged.exitCode).toBe(0);
+    rmSync(path.join(dir, 'ran.txt'));
+
+    writeFileSync(path.join(dir, '.env.local'), 'TAG=2.0\nDB_PASSWORD=0ther-pass\n');
+    const drifted = await run(frozen);
+    expect(drifted.exitCode).toBe(1);
+    expect(drifted.steps).toEqual([]);
+    expect(drifted.errors).toEqual([
+      `${LOCK_FILE_NAME} does not match the current resolution (run cmp-lock to update it):`,
+      '  env file .env.local: not in the lock file',
+      '  env TAG: "1.0" -> "2.0"',
+      '  compose config:',
+      '    @@ line 3',
+      '    -     image: app:1.0',
+      '    +     image: app:2.0',
+    ]);
+    expect(() => readFileSync(path.join(dir, 'ran.txt'))).toThrow();
+  });
+});
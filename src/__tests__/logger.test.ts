@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createLogger, LoggerOptions, redact } from '../logger.js';
+
+let lines: string[] = [];
+const logger = (options: LoggerOptions = {}) =>
+  createLogger({ ...options, sink: (line) => lines.push(line) });
+
+beforeEach(() => {
+  lines = [];
+});
+
+describe('createLogger', () => {
+  it('drops messages below the configured level', () => {
+    const log = logger({ level: 'error' });
+    log.info('hidden');
+    log.error('shown');
+    expect(lines).toEqual(['compose-cat: shown']);
+  });
+
+  it('logs nothing when silent', () => {
+    logger({ level: 'silent' }).error('hidden');
+    expect(lines).toEqual([]);
+  });
+
+  it('renders fields as key=value in text mode', () => {
+    logger().info('running', { command: 'docker compose up', exitCode: 0 });
+    expect(lines).toEqual(['compose-cat: running command="docker compose up" exitCode=0']);
+  });
+
+  it('emits one json object per line', () => {
+    logger({ format: 'json' }).warn('careful', { file: '.env' });
+    expect(JSON.parse(lines[0])).toMatchObject({ level: 'warn', msg: 'careful', file: '.env' });
+  });
+});
+
+describe('redact', () => {
+  it('hides values of matching keys at any depth', () => {
+    expect(redact({ env: { DB_PASSWORD: 'hunter2', API_KEY: 'abc', HOST: 'db' } })).toEqual({
+      env: { DB_PASSWORD: '********', API_KEY: '********', HOST: 'db' },
+    });
+  });
+
+  it('uses the configured patterns instead of the defaults', () => {
+    logger({ redactPatterns: ['^HOST$'] }).info('env', { HOST: 'db', DB_PASSWORD: 'hunter2' });
+    expect(lines).toEqual(['compose-cat: env HOST=******** DB_PASSWORD=hunter2']);
+  });
+});
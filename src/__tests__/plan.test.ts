@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { formatPlan, RunPlan } from '../plan.js';
+
+const plan: RunPlan = {
+  command: 'cmp-clean',
+  cwd: '/work',
+  composeBin: ['docker', 'compose'],
+  binProbes: [
+    { candidate: 'docker compose', available: true, exitCode: 0 },
+    { candidate: 'podman compose', available: false, exitCode: 127 },
+  ],
+  profiles: ['dev'],
+  composeProfiles: ['dev'],
+  envFiles: ['/work/.env', '/work/.env.dev', '/work/.env.dev.sh'],
+  envProviders: ['/work/.env.dev.sh'],
+  composeFiles: [],
+  hookNames: [],
+  steps: [
+    { type: 'hook', stage: 'pre', file: '/work/cmp.pre.sh', command: '/work/cmp.pre.sh' },
+    {
+      type: 'compose',
+      bin: ['docker', 'compose'],
+      args: ['rm', '-fsv'],
+      command: 'docker compose rm -fsv',
+    },
+  ],
+};
+
+describe('formatPlan', () => {
+  it('renders probes, env files and numbered steps as text', () => {
+    const text = formatPlan(plan, 'text');
+    expect(text).toContain('  probe "podman compose": unavailable (exit 127)');
+    expect(text).toContain('  2. /work/.env.dev\n');
+    expect(text).toContain('  3. /work/.env.dev.sh (env provider, would run)');
+    expect(text).toContain('  1. [hook pre] /work/cmp.pre.sh');
+    expect(text).toContain('  2. [compose] docker compose rm -fsv');
+  });
+
+  it('emits the plan unchanged as json', () => {
+    expect(JSON.parse(formatPlan(plan, 'json'))).toEqual(plan);
+  });
+});
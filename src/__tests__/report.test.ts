@@ -0,0 +1,112 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createInterrupts, createLogger, interrupt, run, RunReport } from '../index.js';
+
+describe('run report', () => {
+  let dir: string;
+  let compose: string;
+  let env: NodeJS.ProcessEnv;
+  const read = (name: string) => readFileSync(path.join(dir, name), 'utf8');
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'cmpcat-report-'));
+    env = { PATH: process.env.PATH, XDG_CACHE_HOME: path.join(dir, '.cache') };
+    compose = path.join(dir, 'fake-compose.sh');
+    writeFileSync(
+      compose,
+      '#!/bin/sh\nfor a; do last="$a"; done\n[ "$last" = up ] && exec sleep 10\n[ "$last" = ps ] && exit 3\nexit 0\n',
+      { mode: 0o755 },
+    );
+    writeFileSync(path.join(dir, 'cmp.pre.sh'), '#!/bin/sh\nexit 0\n', { mode: 0o755 });
+    writeFileSync(path.join(dir, '.env.dev'), 'STAGE=dev\n');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records every step with its command, cwd, timing and exit code in json', async () => {
+    const result = await run({
+      cwd: dir,
+      env,
+      cmpBin: [compose],
+      profile: ['dev'],
+      composeArgs: ['ps'],
+      report: 'out/report.json',
+    });
+    expect(result.exitCode).toBe(3);
+
+    const report: RunReport = JSON.parse(read('out/report.json'));
+    expect(report).toMatchObject({
+      version: 1,
+      command: 'ps',
+      cwd: dir,
+      status: 'failed',
+      exitCode: 3,
+      profiles: ['dev'],
+      envFiles: [path.join(dir, '.env.dev')],
+      composeBin: compose,
+      errors: [],
+    });
+    expect(report.steps).toMatchObject([
+      { type: 'hook', stage: 'pre', command: path.join(dir, 'cmp.pre.sh'), cwd: dir, status: 'ok' },
+      { type: 'compose', cwd: dir, status: 'failed', exitCode: 3 },
+    ]);
+    for (const step of report.steps) {
+      expect(Date.parse(step.endedAt!) - Date.parse(step.startedAt!)).toBe(step.durationMs);
+    }
+  });
+
+  it('writes a junit report of an interrupted run and of a run that cannot start', async () => {
+    const interrupts = createInterrupts();
+    setTimeout(() => interrupt(interrupts, 'SIGINT'), 300);
+    const result = await run({
+      cwd: dir,
+      env,
+      cmpBin: [compose],
+      composeArgs: ['up'],
+      report: 'report.xml',
+      interrupts,
+    });
+    expect(result.exitCode).toBe(130);
+    const xml = read('report.xml');
+    expect(xml).toContain('<testsuite name="compose-cat up" tests="2" failures="1" errors="0"');
+    expect(xml).toContain('<property name="signal" value="SIGINT"/>');
+    expect(xml).toContain('<testcase classname="compose-cat.pre" name="cmp.pre.sh"');
+    expect(xml).toContain('<failure message="interrupted (SIGINT)" type="interrupted">');
+
+    const failed = await run({
+      cwd: dir,
+      env,
+      cmpBin: ['false'],
+      report: 'report.txt',
+      reportFormat: 'junit',
+    });
+    expect(failed.exitCode).toBe(1);
+    expect(read('report.txt')).toContain(
+      '<error message="no compose binary detected (tried: false)">',
+    );
+  });
+
+  it('writes the report of a run that throws and records the error', async () => {
+    writeFileSync(
+      path.join(dir, 'cmp.pre.sh'),
+      '#!/bin/sh\necho "A=1" >> "$CMPCAT_HOOK_ENV_OUT"\n',
+    );
+    const logger = createLogger({
+      sink: (line) => {
+        if (line.includes('hook exported variables')) throw new Error('log sink failed');
+      },
+    });
+    await expect(
+      run({ cwd: dir, env, cmpBin: [compose], composeArgs: ['ps'], report: 'report.json', logger }),
+    ).rejects.toThrow('log sink failed');
+    expect(JSON.parse(read('report.json'))).toMatchObject({
+      status: 'failed',
+      exitCode: 1,
+      errors: ['log sink failed'],
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  decryptFile,
+  decryptText,
+  editEncryptedFile,
+  encryptText,
+  generateKey,
+  parseKey,
+  rotateSecretsKey,
+  writeKeyFile,
+} from '../secrets.js';
+
+describe('secrets', () => {
+  const { key } = parseKey(generateKey(), 'test');
+
+  it('round-trips dotenv content', () => {
+    const payload = encryptText('A=1\nB=two\n', key);
+    expect(payload).not.toContain('two');
+    expect(decryptText(payload, key)).toBe('A=1\nB=two\n');
+  });
+
+  it('rejects a wrong key and tampered payloads', () => {
+    const payload = encryptText('A=1\n', key);
+    const other = parseKey(generateKey(), 'other').key;
+    expect(() => decryptText(payload, other)).toThrow('decryption failed');
+
+    const parts = payload.trim().split(':');
+    parts[3] = Buffer.from('A=2\n').toString('base64');
+    expect(() => decryptText(parts.join(':'), key)).toThrow('decryption failed');
+    expect(() => decryptText('A=1', key)).toThrow('not a compose-cat encrypted file');
+  });
+
+  it.skipIf(!existsSync('/dev/shm'))('runs the editor command as argv without a shell', () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'cmpcat-secrets-'));
+    try {
+      const file = path.join(dir, 'my secrets.env.enc');
+      // The temp file, whose name has a space, is the last argument: $0 of `sh -c`.
+      const env = { PATH: process.env.PATH, EDITOR: `sh -c 'echo A=2 > "$0"'` };
+      expect(editEncryptedFile(file, key, { env })).toBe(true);
+      expect(decryptFile(file, key)).toBe('A=2\n');
+      expect(() => editEncryptedFile(file, key, { env: { EDITOR: "vi 'open" } })).toThrow(
+        'invalid editor command',
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rotates the key file and re-encrypts every file, but not a key from the environment', () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'cmpcat-secrets-'));
+    try {
+      const keyFile = path.join(dir, '.env.key');
+      const file = path.join(dir, '.env.enc');
+      const oldKey = generateKey();
+      writeKeyFile(keyFile, oldKey);
+      writeFileSync(file, encryptText('A=1\n', parseKey(oldKey, keyFile).key));
+
+      const fromEnv = parseKey(oldKey, 'CMPCAT_SECRETS_KEY');
+      expect(rotateSecretsKey([file], fromEnv, keyFile).errors).toEqual([
+        `the key comes from CMPCAT_SECRETS_KEY, which would still override ${keyFile}; unset it and rotate the key file instead`,
+      ]);
+
+      expect(rotateSecretsKey([file], parseKey(oldKey, keyFile), keyFile).errors).toEqual([]);
+      const newKey = readFileSync(keyFile, 'utf8');
+      expect(newKey.trim()).not.toBe(oldKey);
+      expect(decryptFile(file, parseKey(newKey, keyFile).key)).toBe('A=1\n');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('validates key length', () => {
+    expect(() => parseKey('c2hvcnQ=', 'CMPCAT_SECRETS_KEY')).toThrow(
+      'CMPCAT_SECRETS_KEY: expected a base64 encoded 32 byte key',
+    );
+  });
+});
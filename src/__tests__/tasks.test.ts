@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { expandTask, validateTasks } from '../tasks.js';
+
+describe('validateTasks', () => {
+  it('accepts compose argv or command lines, hook and shell steps', () => {
+    const { tasks, errors } = validateTasks(
+      {
+        migrate: {
+          description: 'Run the migrations',
+          steps: [
+            { compose: "run --rm api migrate --name 'first run'" },
+            { hook: 'scripts/seed.sh', continueOnError: true },
+            { shell: 'echo done' },
+          ],
+        },
+      },
+      'config.json',
+    );
+    expect(errors).toEqual([]);
+    expect(tasks.migrate.steps).toEqual([
+      { compose: ['run', '--rm', 'api', 'migrate', '--name', 'first run'] },
+      { hook: 'scripts/seed.sh', continueOnError: true },
+      { shell: 'echo done' },
+    ]);
+  });
+
+  it('collects every problem, including unknown references and cycles', () => {
+    const { errors } = validateTasks(
+      {
+        'cmp-clean': { steps: [{ shell: 'true' }] },
+        empty: { steps: [] },
+        mixed: { steps: [{ compose: 'ps', shell: 'ls' }, { task: 'nope' }] },
+        a: { steps: [{ task: 'b', continueOnError: true }] },
+        b: { steps: [{ task: 'a' }] },
+      },
+      'config.json',
+    );
+    expect(errors).toEqual([
+      'config.json: tasks.cmp-clean: built-in tasks cannot be redefined',
+      'config.json: tasks.empty: "steps" must be a non-empty array',
+      'config.json: tasks.mixed.steps[0]: needs exactly one of compose, hook, shell, task',
+      'config.json: tasks.a.steps[0]: "continueOnError" is not allowed on task steps',
+      'config.json: tasks.mixed: unknown task "nope"',
+      'config.json: tasks.a: task "a" includes itself (a -> b -> a)',
+      'config.json: tasks.b: task "b" includes itself (b -> a -> b)',
+    ]);
+  });
+});
+
+describe('expandTask', () => {
+  it('inlines referenced tasks, including built-in ones', () => {
+    const { steps, errors } = expandTask('reset', {
+      reset: { steps: [{ task: 'cmp-clean' }, { compose: ['up', '-d', '--build'] }] },
+    });
+    expect(errors).toEqual([]);
+    expect(steps).toEqual([
+      { compose: ['rm', '-fsv'] },
+      { compose: ['down', '--volumes'] },
+      { compose: ['up', '-d', '--build'] },
+    ]);
+  });
+
+  it('reports unknown tasks', () => {
+    expect(expandTask('nope', {}).errors).toEqual(['unknown task "nope"']);
+  });
+});
@@ -0,0 +1,78 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createInterrupts,
+  diffEnv,
+  EnvDiff,
+  interrupt,
+  RunResult,
+  watchedFiles,
+  watchRun,
+} from '../index.js';
+
+describe('diffEnv', () => {
+  it('lists added, removed and changed keys', () => {
+    expect(diffEnv({ A: '1', B: '1', C: '1' }, { A: '1', B: '2', D: '1' })).toEqual({
+      added: ['D'],
+      removed: ['C'],
+      changed: ['B'],
+    });
+  });
+});
+
+describe('watchRun', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'cmpcat-watch-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('watches dotenv and compose candidates, including files that do not exist yet', () => {
+    const files = watchedFiles({ cwd: dir, env: {}, profile: ['dev'] });
+    expect(files).toEqual(
+      expect.arrayContaining([
+        path.join(dir, '.env'),
+        path.join(dir, '.env.dev.local'),
+        path.join(dir, '.env.dev.local.enc'),
+        path.join(dir, 'compose.yaml'),
+        path.join(dir, 'docker-compose.dev.yml'),
+      ]),
+    );
+  });
+
+  it('runs again after a change, reports the env diff and stops on an interrupt', async () => {
+    writeFileSync(path.join(dir, '.env'), 'A=1\n');
+    writeFileSync(
+      path.join(dir, 'cmp.pre.sh'),
+      '#!/bin/sh\necho "HOOKED=$A" >> "$CMPCAT_HOOK_ENV_OUT"\n',
+      { mode: 0o755 },
+    );
+    const interrupts = createInterrupts();
+    const runs: [RunResult, EnvDiff | undefined][] = [];
+    await watchRun({
+      cwd: dir,
+      env: { PATH: process.env.PATH, XDG_CACHE_HOME: path.join(dir, '.cache') },
+      cmpBin: ['true'],
+      debounceMs: 50,
+      interrupts,
+      onRun: (result, envDiff) => {
+        runs.push([result, envDiff]);
+        if (runs.length === 1) {
+          // Saving the same content again is not a change.
+          writeFileSync(path.join(dir, '.env'), 'A=1\n');
+          setTimeout(() => writeFileSync(path.join(dir, '.env'), 'A=2\nB=1\n'), 300);
+        } else {
+          interrupt(interrupts, 'SIGINT');
+        }
+      },
+    });
+    expect(runs.map(([result]) => result.exitCode)).toEqual([0, 0]);
+    expect(runs[1][1]).toEqual({ added: ['B'], removed: [], changed: ['A', 'HOOKED'] });
+  });
+});
@@ -0,0 +1,798 @@
+import { Argument, Command, Option } from 'commander';
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { createInterface } from 'node:readline/promises';
+import packageJson from '../package.json' with { type: 'json' };
+import {
+  complete,
+  COMPLETION_SHELLS,
+  CompletionCommand,
+  CompletionShell,
+  CompletionSources,
+  completionScript,
+} from './completion.js';
+import { composeSubcommandIndex } from './compose.js';
+import { loadConfig } from './config.js';
+import { DOCTOR_FORMATS, formatDoctorReport, runDoctor } from './doctor.js';
+import { formatEachSummary, runEach } from './each.js';
+import {
+  buildEnvReport,
+  ENV_REPORT_FORMATS,
+  EnvReportFormat,
+  formatEnvReport,
+} from './env-report.js';
+import {
+  listDotenvProfiles,
+  resolveEnvironment,
+  ResolvedOptions,
+  resolveOptions,
+} from './environment.js';
+import {
+  createInterrupts,
+  interrupt,
+  INTERRUPT_SIGNALS,
+  InterruptSignal,
+  Interrupts,
+} from './exec.js';
+import { formatHookSummary, HookResult, listHookNames } from './hooks.js';
+import { DEFAULT_INIT_PROFILES, initProject, InitOptions, planInit } from './init.js';
+import { LOCK_FILE_NAME } from './lock.js';
+import {
+  createLogger,
+  LOG_FORMATS,
+  LOG_LEVELS,
+  LogFormat,
+  Logger,
+  LoggerOptions,
+  LogLevel,
+} from './logger.js';
+import { formatPlan, PLAN_FORMATS, PlanFormat } from './plan.js';
+import { REPORT_FORMATS } from './report.js';
+import {
+  listServices,
+  listTasks,
+  planRun,
+  run,
+  RunOptions,
+  RunResult,
+  writeLockFile,
+} from './runner.js';
+import {
+  decryptFile,
+  editEncryptedFile,
+  encryptedPath,
+  encryptToFile,
+  generateKey,
+  isEncryptedEnvFile,
+  loadSecretsKey,
+  parseKey,
+  rotateSecretsKey,
+  secretsKeyFile,
+  SecretsKey,
+  writeKeyFile,
+} from './secrets.js';
+import { BUILTIN_TASKS } from './tasks.js';
+import { formatEnvDiff, watchRun } from './watch.js';
+
+const PACKAGE_VERSION = packageJson.version;
+
+// Commands whose arguments are passed to compose, see setupCommand.
+const composeArgCommands = new Set<Command>();
+
+// The CLI logs to stderr and hands its logger to every API call; the API itself logs nothing
+// unless given one.
+let loggerOptions: LoggerOptions = {};
+let log: Logger = createLogger();
+
+// Later calls override the options given so far, e.g. the config file's once it is loaded.
+function configureLogger(options: LoggerOptions) {
+  const given = Object.entries(options).filter(([, value]) => value !== undefined);
+  loggerOptions = { ...loggerOptions, ...Object.fromEntries(given) };
+  log = createLogger(loggerOptions);
+}
+
+// Print every message and flag the run as failed; callers return right after.
+function reportErrors(errors: string[]) {
+  for (const err of errors) {
+    log.error(err);
+  }
+  process.exitCode = 1;
+}
+
+// Map the commander options of a command onto the API options. The CLI is a thin wrapper: all
+// resolution happens in the API, which never reads these flags itself.
+function toRunOptions(options: any, composeArgs: string[] = []): RunOptions {
+  return {
+    cmpBin: options.cmpBin,
+    cmpPrefix: options.cmpPrefix,
+    cmpDotenvPrefix: options.cmpDotenvPrefix,
+    cmpHook: options.cmpHook,
+    hooksDir: options.cmpHooksDir,
+    profile: options.profile,
+    disableProfileBasedDotenv: options.disableProfileBasedDotenv,
+    disableDotenvExpansion: options.disableDotenvExpansion,
+    disableProfileBasedComposeFiles: options.disableProfileBasedComposeFiles,
+    extendsEnvOnly: options.cmpExtendsEnvOnly,
+    cascade: options.cmpCascade,
+    downOnExit: options.cmpDownOnExit,
+    shell: options.cmpShell,
+    gracePeriod: options.cmpGracePeriod,
+    skipHooks: options.cmpSkipHooks,
+    onlyHooks: options.cmpOnlyHooks,
+    frozen: options.cmpFrozen,
+    report: options.cmpReport,
+    reportFormat: options.cmpReportFormat,
+    composeArgs,
+    logger: log,
+  };
+}
+
+// Logging options follow the usual precedence: CLI > env (CMPCAT_LOG_LEVEL, CMPCAT_LOG_FORMAT) >
+// config file > defaults.
+function resolveLoggerOptions(
+  options: any,
+  configOptions: { logLevel?: string; logFormat?: string; logRedactPatterns?: string[] },
+): LoggerOptions | undefined {
+  const level = options.cmpLogLevel ?? process.env.CMPCAT_LOG_LEVEL ?? configOptions.logLevel;
+  const format = options.cmpLogFormat ?? process.env.CMPCAT_LOG_FORMAT ?? configOptions.logFormat;
+  const errors: string[] = [];
+  if (level !== undefined && !LOG_LEVELS.includes(level)) {
+    errors.push(`unknown log level "${level}" (expected ${LOG_LEVELS.join(', ')})`);
+  }
+  if (format !== undefined && !LOG_FORMATS.includes(format)) {
+    errors.push(`unknown log format "${format}" (expected ${LOG_FORMATS.join(', ')})`);
+  }
+  if (errors.length > 0) {
+    reportErrors(errors);
+    return undefined;
+  }
+  return {
+    level: level as LogLevel | undefined,
+    format: format as LogFormat | undefined,
+    redactPatterns: options.cmpLogRedact ?? configOptions.logRedactPatterns,
+  };
+}
+
+/**
+ * Configure logging from the CLI, env and config file, and fail early on config errors. Every
+ * command runs this first; the API calls that follow resolve the same options again.
+ */
+function loadOptionDefaults(options: any): ResolvedOptions | undefined {
+  // Apply the CLI/env logging options right away so config errors already honour them.
+  const earlyLogger = resolveLoggerOptions(options, {});
+  if (!earlyLogger) return;
+  configureLogger(earlyLogger);
+
+  const resolved = resolveOptions(toRunOptions(options));
+  if (resolved.errors.length > 0) {
+    reportErrors(resolved.errors);
+    return;
+  }
+
+  const loggerOptions = resolveLoggerOptions(options, resolved.config);
+  if (!loggerOptions) return;
+  configureLogger(loggerOptions);
+  log.info('starting', { cwd: resolved.cwd, version: PACKAGE_VERSION });
+  if (resolved.configFile) {
+    log.info('using config file', { file: resolved.configFile });
+  }
+  return resolved;
+}
+
+function reportSchemaViolations(violations: string[]) {
+  for (const v of violations) {
+    log.error(`env schema violation: ${v}`);
+  }
+}
+
+// Commander consumes the word after an optional-value flag, so `--cmp-dry-run up` yields "up" as
+// the format. Anything that is not a known format is handed back to the compose args.
+function resolveDryRun(composeArgs: string[], options: any): PlanFormat | undefined {
+  const value = options.cmpDryRun;
+  if (value === undefined || value === false) return undefined;
+  if (value === true) return 'text';
+  if (PLAN_FORMATS.includes(value)) return value as PlanFormat;
+  composeArgs.unshift(value);
+  return 'text';
+}
+
+function printPlan(command: string, runOptions: RunOptions, format: PlanFormat) {
+  const { plan, errors } = planRun(runOptions, command);
+  if (!plan) return reportErrors(errors);
+  console.log(formatPlan(plan, format));
+}
+
+function reportHookSummary(hooks: HookResult[]) {
+  if (hooks.length === 0) return;
+  if (log.format === 'json') {
+    log.info('hook summary', { hooks });
+    return;
+  }
+  log.info('hook summary:');
+  for (const line of formatHookSummary(hooks, process.cwd())) {
+    log.info(`  ${line}`);
+  }
+}
+
+// While a run is active, signals are handed to the run instead of ending compose-cat, so it can
+// stop the running command gracefully and still run the post hooks.
+async function trapSignals<T>(fn: (interrupts: Interrupts) => Promise<T>): Promise<T> {
+  const interrupts: Interrupts = createInterrupts();
+  const handlers = INTERRUPT_SIGNALS.map((signal) => {
+    const handler = () => interrupt(interrupts, signal);
+    process.on(signal, handler);
+    return [signal, handler] as [InterruptSignal, () => void];
+  });
+  try {
+    return await fn(interrupts);
+  } finally {
+    for (const [signal, handler] of handlers) {
+      process.off(signal, handler);
+    }
+  }
+}
+
+function runTrappingSignals(runOptions: RunOptions): Promise<RunResult> {
+  return trapSignals((interrupts) => run({ ...runOptions, interrupts }));
+}
+
+// --cmp-watch: report every run and the env keys that changed; Ctrl-C ends watching with exit 0.
+async function watchTrappingSignals(runOptions: RunOptions) {
+  await trapSignals((interrupts) =>
+    watchRun({
+      ...runOptions,
+      interrupts,
+      onRun: (result, envDiff) => {
+        for (const err of result.errors) log.error(err);
+        reportHookSummary(result.steps.flatMap((step) => (step.type === 'hook' ? [step] : [])));
+        log.info('run finished', { exitCode: result.exitCode });
+        if (!envDiff) return;
+        const lines = formatEnvDiff(envDiff);
+        if (lines.length === 0) return;
+        if (log.format === 'json') return log.info('env changed', envDiff);
+        log.info('env changed:');
+        for (const line of lines) log.info(`  ${line}`);
+      },
+    }),
+  );
+  process.exitCode = 0;
+}
+
+// Log what a run did and turn it into the process exit code.
+function reportRun(result: RunResult): number {
+  if (result.errors.length > 0) reportErrors(result.errors);
+  reportHookSummary(result.steps.flatMap((step) => (step.type === 'hook' ? [step] : [])));
+  return result.exitCode;
+}
+
+// Run compose once with the given args between the pre and post hooks.
+async function runPassthrough(composeArgs: string[], options: any, dryRun: PlanFormat | undefined) {
+  if (!loadOptionDefaults(options)) return;
+  const runOptions = toRunOptions(options, composeArgs);
+  if (dryRun) return printPlan('compose-cat', runOptions, dryRun);
+  if (options.cmpWatch) return watchTrappingSignals(runOptions);
+
+  // Post hooks run regardless of the compose result.
+  process.exitCode = reportRun(await runTrappingSignals(runOptions));
+}
+
+// Shared action of `run <task>` and the cmp-clean* commands: hooks around the steps of the task,
+// stopping at the first failure that may not continue.
+async function runTask(
+  task: string,
+  composeArgs: string[],
+  options: any,
+  dryRun: PlanFormat | undefined,
+) {
+  if (!loadOptionDefaults(options)) return;
+  const runOptions: RunOptions = { ...toRunOptions(options, composeArgs), task };
+  if (dryRun) return printPlan(task, runOptions, dryRun);
+  if (options.cmpWatch) return watchTrappingSignals(runOptions);
+
+  process.exit((process.exitCode = reportRun(await runTrappingSignals(runOptions))));
+}
+
+// cmp-each: every project runs this very CLI (same node and loader flags) with the given args.
+async function runInProjects(args: string[], options: any) {
+  const loaded = loadConfig(process.cwd());
+  const loggerOptions = resolveLoggerOptions(options, loaded.config);
+  if (!loggerOptions) return;
+  configureLogger(loggerOptions);
+  const parallel = options.cmpParallel === undefined ? 1 : Number(options.cmpParallel);
+  if (!Number.isInteger(parallel) || parallel < 1) {
+    return reportErrors([`invalid --cmp-parallel value "${options.cmpParallel}"`]);
+  }
+
+  const result = await trapSignals((interrupts) =>
+    runEach({
+      projects: options.cmpProject,
+      parallel,
+      bin: [process.execPath, ...process.execArgv, process.argv[1]],
+      args,
+      interrupts,
+      logger: log,
+    }),
+  );
+  if (result.errors.length > 0) return reportErrors(result.errors);
+  if (log.format === 'json') {
+    log.info('project summary', { projects: result.projects });
+  } else {
+    log.info('project summary:');
+    for (const line of formatEachSummary(result.projects)) log.info(`  ${line}`);
+  }
+  process.exitCode = result.exitCode;
+}
+
+function printTasks(options: any) {
+  if (!loadOptionDefaults(options)) return;
+  const { tasks, errors } = listTasks(toRunOptions(options));
+  if (errors.length > 0) return reportErrors(errors);
+  const width = Math.max(...tasks.map((t) => t.name.length));
+  for (const t of tasks) {
+    const description = [t.description, t.builtin ? '(built-in)' : undefined].filter(Boolean);
+    console.log(`${t.name.padEnd(width)}  ${description.join(' ')}`.trimEnd());
+  }
+}
+
+// `--interactive`: ask for the profiles, hooks and config file with the flags as defaults, show what
+// would be written and confirm. Returns undefined when the user declines or presses Ctrl-D.
+async function promptInitOptions(
+  initOptions: InitOptions,
+  profiles: string[],
+): Promise<InitOptions | undefined> {
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  const ask = async (question: string, fallback: boolean) => {
+    const answer = (await rl.question(`${question} [${fallback ? 'Y/n' : 'y/N'}] `)).trim();
+    return answer === '' ? fallback : /^y(es)?$/i.test(answer);
+  };
+  try {
+    const answer = await rl.question(`Profiles [${profiles.join(',')}]: `);
+    const chosen: InitOptions = {
+      ...initOptions,
+      profile: answer.trim() ? [answer] : profiles,
+      hooks: await ask('Write example pre/post hooks?', initOptions.hooks ?? true),
+      config: await ask('Write a config file?', initOptions.config ?? false),
+    };
+    const { cwd, files, errors } = planInit(chosen);
+    if (errors.length > 0) return chosen;
+    for (const f of files) {
+      process.stderr.write(`  ${f.action.padEnd(9)} ${path.relative(cwd, f.file)}\n`);
+    }
+    return (await ask('Continue?', true)) ? chosen : undefined;
+  } catch (err) {
+    if ((err as Error).name === 'AbortError') return undefined;
+    throw err;
+  } finally {
+    rl.close();
+  }
+}
+
+async function runInit(options: any) {
+  const resolved = loadOptionDefaults(options);
+  if (!resolved) return;
+  let initOptions: InitOptions | undefined = {
+    ...toRunOptions(options),
+    hooks: options.hooks,
+    config: options.config,
+    force: options.force,
+  };
+  if (options.interactive) {
+    if (!process.stdin.isTTY) return reportErrors(['--interactive needs a terminal']);
+    const profiles = resolved.profiles.length > 0 ? resolved.profiles : DEFAULT_INIT_PROFILES;
+    initOptions = await promptInitOptions(initOptions, profiles);
+    if (!initOptions) return log.info('nothing written');
+  }
+  const { cwd, files, errors } = initProject(initOptions);
+  for (const { file, action } of files) {
+    const name = path.relative(cwd, file);
+    if (action === 'create') log.info('created', { file: name });
+    else if (action === 'overwrite') log.info('replaced', { file: name });
+    else if (action === 'append') log.info('added missing entries', { file: name });
+    else if (path.basename(file) === '.gitignore') log.info('already up to date', { file: name });
+    else log.warn('skipped existing file (use --force to replace it)', { file: name });
+  }
+  if (errors.length > 0) reportErrors(errors);
+}
+
+// Options that influence logging and how the environment is resolved. Shared by every command,
+// including the ones that never run compose.
+function addEnvironmentOptions(program: Command) {
+  return program
+    .addOption(
+      new Option('--cmp-log-level <level>', 'Log level (default: info)').choices(LOG_LEVELS),
+    )
+    .addOption(
+      new Option('--cmp-log-format <format>', 'Log format (default: text)').choices(LOG_FORMATS),
+    )
+    .option('--cmp-log-redact <pattern...>', 'Key patterns whose values are redacted in logs')
+    .option('--cmp-prefix <value>', 'Set the environment variable prefix (default: CMP_)')
+    .option('--cmp-dotenv-prefix <value>', 'Set the dotenv file prefix to detect (default: .env)')
+    .option('--profile <value...>', 'Profiles to use (comma-separated or repeat the flag)')
+    .option(
+      '--cmp-cascade',
+      'Also load dotenv files and hooks of parent directories up to the project root',
+    )
+    .option(
+      '--disable-profile-based-dotenv',
+      'This disables automatic .env file detection based on profile names. (enabled by default).',
+    )
+    .option(
+      '--disable-dotenv-expansion',
+      'Pass ${VAR} references in dotenv values through literally instead of expanding them',
+    );
+}
+
+// Shared by the cmp-secrets subcommands: apply prefix options, then load the key (or fail).
+function requireSecretsKey(
+  options: any,
+): { resolved: ResolvedOptions; secretsKey: SecretsKey } | undefined {
+  const resolved = loadOptionDefaults(options);
+  if (!resolved) return;
+  const { cwd, env, prefix, dotenvPrefix } = resolved;
+  try {
+    const secretsKey = loadSecretsKey(cwd, prefix, dotenvPrefix, env);
+    if (secretsKey) return { resolved, secretsKey };
+    const keyFile = secretsKeyFile(cwd, prefix, dotenvPrefix, env);
+    reportErrors([`no secrets key found (set ${prefix}SECRETS_KEY or create ${keyFile})`]);
+  } catch (err) {
+    reportErrors([err instanceof Error ? err.message : String(err)]);
+  }
+}
+
+function setupSecretsCommands(cmpSecrets: Command) {
+  addEnvironmentOptions(
+    cmpSecrets
+      .command('encrypt <file>')
+      .description('Encrypt a dotenv file to <file>.enc, creating a key file when none exists'),
+  ).action(async (file: string, options) => {
+    const resolved = loadOptionDefaults(options);
+    if (!resolved) return;
+    const { cwd, env, prefix, dotenvPrefix } = resolved;
+    if (!existsSync(file)) return reportErrors([`${file}: no such file`]);
+    let secretsKey: SecretsKey | undefined;
+    try {
+      secretsKey = loadSecretsKey(cwd, prefix, dotenvPrefix, env);
+    } catch (err) {
+      return reportErrors([err instanceof Error ? err.message : String(err)]);
+    }
+    if (!secretsKey) {
+      const keyFile = secretsKeyFile(cwd, prefix, dotenvPrefix, env);
+      const newKey = generateKey();
+      writeKeyFile(keyFile, newKey);
+      secretsKey = parseKey(newKey, keyFile);
+      log.info('created secrets key (do not commit it)', { file: keyFile });
+    }
+    const target = encryptedPath(file);
+    encryptToFile(target, readFileSync(file, 'utf8'), secretsKey.key);
+    log.info('encrypted dotenv file', { file, target });
+  });
+
+  addEnvironmentOptions(
+    cmpSecrets.command('decrypt <file>').description('Print the decrypted content of <file>.enc'),
+  ).action(async (file: string, options) => {
+    const loaded = requireSecretsKey(options);
+    if (!loaded) return;
+    try {
+      process.stdout.write(decryptFile(encryptedPath(file), loaded.secretsKey.key));
+    } catch (err) {
+      reportErrors([`${file}: ${err instanceof Error ? err.message : String(err)}`]);
+    }
+  });
+
+  addEnvironmentOptions(
+    cmpSecrets
+      .command('edit <file>')
+      .description('Edit <file>.enc in $EDITOR and re-encrypt it (creates it when missing)'),
+  )
+    .option('--allow-disk-temp', 'Without /dev/shm, write the plaintext to the OS temp directory')
+    .action(async (file: string, options) => {
+      const loaded = requireSecretsKey(options);
+      if (!loaded) return;
+      const target = encryptedPath(file);
+      try {
+        const changed = editEncryptedFile(target, loaded.secretsKey.key, {
+          allowDiskTemp: options.allowDiskTemp,
+        });
+        log.info(changed ? 'updated encrypted dotenv file' : 'no changes', { file: target });
+      } catch (err) {
+        reportErrors([`${target}: ${err instanceof Error ? err.message : String(err)}`]);
+      }
+    });
+
+  addEnvironmentOptions(
+    cmpSecrets
+      .command('rotate')
+      .description('Re-encrypt every encrypted dotenv file in the cwd with a new key'),
+  ).action(async (options) => {
+    const loaded = requireSecretsKey(options);
+    if (!loaded) return;
+    const { cwd, env, prefix, dotenvPrefix } = loaded.resolved;
+    const files = readdirSync(cwd)
+      .filter((name) => name.startsWith(dotenvPrefix) && isEncryptedEnvFile(name))
+      .map((name) => path.resolve(cwd, name));
+    const keyFile = secretsKeyFile(cwd, prefix, dotenvPrefix, env);
+    const { errors } = rotateSecretsKey(files, loaded.secretsKey, keyFile);
+    if (errors.length > 0) return reportErrors(errors);
+    log.info('wrote new secrets key', { file: keyFile });
+    for (const f of files) log.info('re-encrypted dotenv file', { file: f });
+  });
+}
+
+// Attach shared CLI options and the action callback to a commander Command instance. Every entry
+// point (default and cmp-clean*) calls this so we keep flag parsing identical.
+function setupCommand(
+  program: Command,
+  action: (composeArgs: string[], options: any) => Promise<void>,
+) {
+  addEnvironmentOptions(
+    program
+      .allowUnknownOption(true)
+      .enablePositionalOptions()
+      .option('--cmp-hook <value...>', 'Specify hook scripts to run')
+      .option('--cmp-hooks-dir <dir>', 'Directory with ordered hooks (default: .cmp/hooks)')
+      .option('--cmp-skip-hooks', 'Do not run any hook')
+      .option(
+        '--cmp-only-hooks <glob>',
+        'Only run hooks whose file name or relative path matches (repeatable)',
+        (value: string, previous: string[] = []) => [...previous, value],
+      )
+      .option('--cmp-bin <value...>', 'Provide compose binary candidates in priority order')
+      .option('--cmp-shell', 'Run hooks and compose through the shell instead of directly'),
+  )
+    .option(
+      '--disable-profile-based-compose-files',
+      'Do not add compose.<profile>.yaml and related files as -f flags',
+    )
+    .option(
+      '--cmp-extends-env-only',
+      'Profiles pulled in by CMPCAT_EXTENDS only contribute dotenv files, not --profile flags',
+    )
+    .option(
+      '--cmp-down-on-exit',
+      'Run "down" when a foreground "up" is interrupted (Ctrl-C, SIGTERM)',
+    )
+    .option(
+      '--cmp-grace-period <duration>',
+      'Time an interrupted or timed out command gets to exit before it is killed (default: 10s)',
+    )
+    .option(
+      '--cmp-watch',
+      'Run again whenever a dotenv, compose, config or hook file changes, until Ctrl-C',
+    )
+    .option('--cmp-frozen', `Fail when the resolution differs from ${LOCK_FILE_NAME}`)
+    .option(
+      '--cmp-report <path>',
+      'Write a report of every hook and compose step when the run ends',
+    )
+    .addOption(
+      new Option(
+        '--cmp-report-format <format>',
+        'Report format (default: junit for .xml, else json)',
+      ).choices(REPORT_FORMATS),
+    )
+    .option(
+      '--cmp-dry-run [format]',
+      'Print the resolved plan (text or json) instead of running hooks and compose',
+    )
+    .argument('[composeArgs...]', 'Compose subcommand and options to pass through')
+    .action(action);
+  composeArgCommands.add(program);
+  return program;
+}
+
+// What shell completion knows about a command; hidden commands (`__complete`) are left out.
+function completionCommand(cmd: Command): CompletionCommand {
+  return {
+    name: cmd.name(),
+    options: cmd.options.map((o) => ({
+      flags: [o.short, o.long].filter((f): f is string => f !== undefined),
+      name: o.attributeName(),
+      takesValue: o.required || o.optional,
+      optionalValue: o.optional,
+      variadic: o.variadic,
+      choices: o.argChoices,
+    })),
+    subcommands: cmd.commands.filter((c) => !c.name().startsWith('__')).map(completionCommand),
+    args: cmd.registeredArguments[0]?.argChoices,
+    passthrough: composeArgCommands.has(cmd)
+      ? 'compose'
+      : cmd.name() === 'cmp-each'
+        ? 'compose-cat'
+        : undefined,
+  };
+}
+
+// Completion runs on every Tab press: nothing may be logged or spawned (no compose, no env
+// providers), and failures only mean fewer suggestions.
+const completionSources: CompletionSources = {
+  profiles: (options) => listDotenvProfiles(resolveOptions(toRunOptions(options))),
+  hookNames: (options) => {
+    const resolved = resolveOptions(toRunOptions(options));
+    const hooksDir = (options.cmpHooksDir as string | undefined) ?? resolved.config.hooksDir;
+    const names = resolved.dirs.flatMap((cwd) => listHookNames({ cwd, hooksDir }));
+    return [...new Set(names)];
+  },
+  services: (options) => listServices(toRunOptions(options)).services,
+  tasks: (options) => listTasks(toRunOptions(options)).tasks.map((t) => t.name),
+};
+
+// CLI bootstrap: define commands, wire hooks, and pass everything to Commander.
+async function main() {
+  // Setup CLI
+  let program = new Command();
+
+  const mainProgram = program
+    .name('compose-cat')
+    .description('ComposeCat: pass-through wrapper for Docker/Podman Compose with env and helpers')
+    .version(PACKAGE_VERSION);
+
+  // `run <task>` runs a task; anything else after `run` is compose's own `run` and passed through
+  // as before. Dispatching here rather than in a subcommand keeps the options given before `run`.
+  setupCommand(mainProgram, async (composeArgs: string[], options) => {
+    const dryRun = resolveDryRun(composeArgs, options);
+    const index = composeSubcommandIndex(composeArgs);
+    if (index >= 0 && composeArgs[index] === 'run') {
+      const [name, ...rest] = composeArgs.slice(index + 1);
+      if (name === '--list') return printTasks(options);
+      const { tasks } = listTasks(toRunOptions(options));
+      if (name !== undefined && tasks.some((t) => t.name === name)) {
+        return runTask(name, [...composeArgs.slice(0, index), ...rest], options, dryRun);
+      }
+    }
+    return runPassthrough(composeArgs, options, dryRun);
+  });
+
+  for (const [name, task] of Object.entries(BUILTIN_TASKS)) {
+    setupCommand(
+      program.command(name).description(task.description ?? ''),
+      (composeArgs, options) =>
+        runTask(name, composeArgs, options, resolveDryRun(composeArgs, options)),
+    );
+  }
+
+  // Only the options below belong to cmp-each; everything else is passed on to every project.
+  program
+    .command('cmp-each')
+    .description('Run compose-cat with the same arguments in several project directories')
+    .allowUnknownOption(true)
+    .option(
+      '--cmp-project <dir>',
+      'Project directory or glob, instead of "projects" from the config file (repeatable)',
+      (value: string, previous: string[] = []) => [...previous, value],
+    )
+    .option('--cmp-parallel <n>', 'How many projects run at the same time (default: 1)')
+    .argument('[args...]', 'compose-cat arguments run in every project')
+    .action(runInProjects);
+
+  // Compose options before the subcommand (e.g. `-f compose.ci.yaml`) apply to `<bin> config`.
+  addEnvironmentOptions(
+    program
+      .command('cmp-lock')
+      .description(
+        `Record the resolved env, compose binary and compose config in ${LOCK_FILE_NAME}`,
+      )
+      .allowUnknownOption(true),
+  )
+    .option('--cmp-bin <value...>', 'Provide compose binary candidates in priority order')
+    .option('--cmp-shell', 'Run compose through the shell instead of directly')
+    .option(
+      '--disable-profile-based-compose-files',
+      'Do not add compose.<profile>.yaml and related files as -f flags',
+    )
+    .option(
+      '--cmp-extends-env-only',
+      'Profiles pulled in by CMPCAT_EXTENDS only contribute dotenv files, not --profile flags',
+    )
+    .argument('[composeArgs...]', 'Compose options to pass before "config"')
+    .action(async (composeArgs: string[], options) => {
+      if (!loadOptionDefaults(options)) return;
+      const { file, lock, errors } = writeLockFile(toRunOptions(options, composeArgs));
+      if (!lock) return reportErrors(errors);
+      log.info('wrote lock file', {
+        file,
+        envFiles: Object.keys(lock.envFiles).length,
+        envKeys: Object.keys(lock.env).length,
+      });
+    });
+
+  const cmpEnv = program
+    .command('cmp-env')
+    .description('Print the merged environment and which source set each key');
+  addEnvironmentOptions(cmpEnv)
+    .option('--keys <glob...>', 'Only show keys matching these globs (e.g. "DB_*")')
+    .option('--format <format>', `Output format: ${ENV_REPORT_FORMATS.join(', ')}`, 'table')
+    .option('--no-mask', 'Show values of secret-looking keys instead of masking them')
+    .action(async (options) => {
+      if (!ENV_REPORT_FORMATS.includes(options.format)) {
+        return reportErrors([`unknown format "${options.format}"`]);
+      }
+      if (!loadOptionDefaults(options)) return;
+      const resolved = resolveEnvironment(toRunOptions(options));
+      if (resolved.errors.length > 0) return reportErrors(resolved.errors);
+      const entries = buildEnvReport(resolved.mergedEnv, resolved.provenance, {
+        keys: options.keys,
+        mask: options.mask,
+      });
+      console.log(formatEnvReport(entries, options.format as EnvReportFormat));
+    });
+
+  addEnvironmentOptions(
+    cmpEnv.command('check').description('Validate the merged environment against the env schema'),
+  ).action(async (options) => {
+    if (!loadOptionDefaults(options)) return;
+    const resolved = resolveEnvironment(toRunOptions(options));
+    if (resolved.errors.length > 0) return reportErrors(resolved.errors);
+    if (resolved.schemaViolations.length > 0) {
+      reportSchemaViolations(resolved.schemaViolations);
+      process.exitCode = 1;
+      return;
+    }
+    log.info('environment matches the env schema');
+  });
+
+  const cmpDoctor = program
+    .command('cmp-doctor')
+    .description('Check config, compose binaries, dotenv files, hooks and the prefix for problems');
+  addEnvironmentOptions(cmpDoctor)
+    .option('--cmp-hook <value...>', 'Hook names that are enabled')
+    .option('--cmp-hooks-dir <dir>', 'Directory with ordered hooks (default: .cmp/hooks)')
+    .option('--cmp-bin <value...>', 'Provide compose binary candidates in priority order')
+    .option('--cmp-shell', 'Probe compose binaries through the shell')
+    .addOption(new Option('--format <format>', 'Output format').choices(DOCTOR_FORMATS))
+    .action(async (options) => {
+      // Config errors are part of the report, so only the CLI/env logging options apply here.
+      const loggerOptions = resolveLoggerOptions(options, {});
+      if (!loggerOptions) return;
+      configureLogger(loggerOptions);
+      const report = runDoctor(toRunOptions(options));
+      console.log(formatDoctorReport(report, options.format ?? 'text'));
+      if (report.errors > 0) process.exitCode = 1;
+    });
+
+  addEnvironmentOptions(
+    program
+      .command('cmp-init')
+      .description('Create starter dotenv files, .gitignore entries and example hooks'),
+  )
+    .option('--no-hooks', 'Do not write example pre/post hooks')
+    .option('--config', 'Also write a compose-cat.config.json')
+    .option('--force', 'Replace files that already exist')
+    .option('-i, --interactive', 'Ask for profiles, hooks and the config file before writing')
+    .action(async (options) => runInit(options));
+
+  setupSecretsCommands(
+    program
+      .command('cmp-secrets')
+      .description('Manage encrypted dotenv files (encrypt, decrypt, edit, rotate)'),
+  );
+
+  program
+    .command('cmp-completion')
+    .description('Print the shell completion script for bash, zsh, fish or powershell')
+    .addArgument(new Argument('<shell>', 'Shell to complete in').choices(COMPLETION_SHELLS))
+    .action(async (shell: CompletionShell) => {
+      process.stdout.write(completionScript(shell, program.name()));
+    });
+
+  // Called by the completion scripts: `__complete <index of the current word> [words...]`.
+  program
+    .command('__complete', { hidden: true })
+    .helpOption(false)
+    .passThroughOptions()
+    .argument('<cword>')
+    .argument('[words...]')
+    .action(async (cword: string, words: string[]) => {
+      configureLogger({ level: 'silent' });
+      const root = completionCommand(program);
+      const candidates = complete(words, Number(cword), root, completionSources);
+      if (candidates.length > 0) console.log(candidates.join('\n'));
+    });
+
+  await program.parseAsync(process.argv);
+}
+
+// Run
+main().catch((err) => {
+  log.error(err instanceof Error ? (err.stack ?? err.message) : String(err));
+  process.exit(1);
+});
@@ -0,0 +1,309 @@
+import { composeSubcommandIndex } from './compose.js';
+
+export type CompletionShell = 'bash' | 'zsh' | 'fish' | 'powershell';
+
+export const COMPLETION_SHELLS: CompletionShell[] = ['bash', 'zsh', 'fish', 'powershell'];
+
+// Compose v2 subcommands offered where compose args start.
+export const COMPOSE_SUBCOMMANDS = [
+  'attach',
+  'build',
+  'config',
+  'cp',
+  'create',
+  'down',
+  'events',
+  'exec',
+  'images',
+  'kill',
+  'logs',
+  'ls',
+  'pause',
+  'port',
+  'ps',
+  'pull',
+  'push',
+  'restart',
+  'rm',
+  'run',
+  'scale',
+  'start',
+  'stats',
+  'stop',
+  'top',
+  'unpause',
+  'up',
+  'version',
+  'wait',
+  'watch',
+];
+
+// Subcommands that take one service (followed by a command or port) or any number of services.
+const SINGLE_SERVICE_SUBCOMMANDS = ['attach', 'exec', 'port', 'run'];
+const SERVICES_SUBCOMMANDS = [
+  'build',
+  'create',
+  'images',
+  'kill',
+  'logs',
+  'pause',
+  'ps',
+  'pull',
+  'push',
+  'restart',
+  'rm',
+  'start',
+  'stats',
+  'stop',
+  'top',
+  'unpause',
+  'up',
+  'wait',
+  'watch',
+];
+
+export type CompletionOption = {
+  // e.g. ['--profile'] or ['-V', '--version']
+  flags: string[];
+  // Key the value is stored under, like commander's attribute name (`cmpHooksDir`).
+  name: string;
+  takesValue: boolean;
+  // The value may be left out (`[value]`); only a value from `choices` then counts as one.
+  optionalValue?: boolean;
+  // Takes every following word up to the next option, like commander's `<value...>`.
+  variadic?: boolean;
+  choices?: string[];
+};
+
+export type CompletionCommand = {
+  name: string;
+  options: CompletionOption[];
+  subcommands: CompletionCommand[];
+  // Fixed values of the first argument, e.g. the shells of cmp-completion.
+  args?: string[];
+  // What the other words are: compose args (the main command and tasks), or a compose-cat command
+  // line of its own (cmp-each).
+  passthrough?: 'compose' | 'compose-cat';
+};
+
+// Options given so far, keyed by `CompletionOption.name`.
+export type CompletedOptions = Record<string, string | string[] | boolean>;
+
+/**
+ * Project-aware suggestions. Each one gets the options given so far, so `--profile` or
+ * `--cmp-dotenv-prefix` on the command line apply.
+ */
+export type CompletionSources = {
+  profiles: (options: CompletedOptions) => string[];
+  hookNames: (options: CompletedOptions) => string[];
+  services: (options: CompletedOptions) => string[];
+  tasks: (options: CompletedOptions) => string[];
+};
+
+// Options whose values come from the project.
+const VALUE_SOURCES: Record<string, keyof CompletionSources> = {
+  profile: 'profiles',
+  cmpHook: 'hookNames',
+};
+
+const findOption = (command: CompletionCommand, flag: string) =>
+  command.options.find((o) => o.flags.includes(flag));
+
+const matching = (candidates: string[], partial: string, prefix = '') => [
+  ...new Set(candidates.filter((c) => c.startsWith(partial)).map((c) => `${prefix}${c}`)),
+];
+
+/**
+ * Suggestions for `words[cword]`, given the words after the program name. Options of the command
+ * are completed everywhere, `--profile` and `--cmp-hook` values from the project, and compose args
+ * with compose subcommands and service names. Also completes `--opt=value` words, and `=` as a
+ * word of its own as bash splits them.
+ */
+export function complete(
+  words: string[],
+  cword: number,
+  root: CompletionCommand,
+  sources: CompletionSources,
+): string[] {
+  const current = words[cword] ?? '';
+  const before = words.slice(0, cword);
+  const options: CompletedOptions = {};
+  const composeWords: string[] = [];
+  const positionals: string[] = [];
+  let command = root;
+  let pending: CompletionOption | undefined;
+
+  const setValue = (option: CompletionOption, value: string) => {
+    const previous = options[option.name];
+    options[option.name] = option.variadic
+      ? [...(Array.isArray(previous) ? previous : []), value]
+      : value;
+  };
+
+  for (let i = 0; i < before.length; i++) {
+    const word = before[i];
+    if (word === '=' && pending) continue;
+    if (pending?.optionalValue && !pending.choices?.includes(word)) pending = undefined;
+    if (pending && !(pending.variadic && word.startsWith('-'))) {
+      setValue(pending, word);
+      if (!pending.variadic) pending = undefined;
+      continue;
+    }
+    pending = undefined;
+    const [flag, value] = word.startsWith('--') ? word.split(/=(.*)/s) : [word];
+    const option = word.startsWith('-') ? findOption(command, flag) : undefined;
+    if (!option && command.passthrough === 'compose-cat') {
+      return complete([...before.slice(i), current], cword - i, root, sources);
+    }
+    if (option) {
+      if (!option.takesValue) options[option.name] = true;
+      else if (value !== undefined) setValue(option, value);
+      else pending = option;
+      continue;
+    }
+    const subcommand = command.subcommands.find((c) => c.name === word);
+    if (subcommand && positionals.length === 0 && composeWords.length === 0) {
+      command = subcommand;
+      continue;
+    }
+    if (command.passthrough === 'compose') composeWords.push(word);
+    else if (!word.startsWith('-')) positionals.push(word);
+  }
+
+  // The value of an option: after the option, or after `--opt=` in the same word.
+  // An optional value without choices is never completed; the word is completed as usual.
+  const valuePosition =
+    pending &&
+    !(pending.variadic && current.startsWith('-')) &&
+    !(pending.optionalValue && !pending.choices);
+  let valueOption = valuePosition ? pending : undefined;
+  let partial = current;
+  let prefix = '';
+  if (!valueOption && current.startsWith('--') && current.includes('=')) {
+    const [flag] = current.split('=');
+    const option = findOption(command, flag);
+    if (option?.takesValue) {
+      valueOption = option;
+      prefix = `${flag}=`;
+      partial = current.slice(prefix.length);
+    }
+  }
+  if (valueOption) {
+    const source = VALUE_SOURCES[valueOption.name];
+    const values = valueOption.choices ?? (source ? sources[source](options) : []);
+    return matching(values, partial, prefix);
+  }
+
+  if (current.startsWith('-')) {
+    const flags = command.options.flatMap((o) => o.flags);
+    if (command.passthrough === 'compose-cat') flags.push(...root.options.flatMap((o) => o.flags));
+    return matching(flags, current);
+  }
+  if (command.passthrough === 'compose-cat') {
+    return complete([current], 0, root, sources);
+  }
+  if (command.passthrough === 'compose') {
+    return matching(completeComposeArgs(command, root, composeWords, options, sources), current);
+  }
+  if (positionals.length === 0) {
+    return matching([...(command.args ?? []), ...command.subcommands.map((c) => c.name)], current);
+  }
+  return [];
+}
+
+// Positional compose args of the main command; tasks only take compose options. `run` is
+// followed by a task or a service.
+function completeComposeArgs(
+  command: CompletionCommand,
+  root: CompletionCommand,
+  words: string[],
+  options: CompletedOptions,
+  sources: CompletionSources,
+): string[] {
+  if (command !== root) return [];
+  const index = composeSubcommandIndex(words);
+  if (index < 0) {
+    return [...root.subcommands.map((c) => c.name), ...COMPOSE_SUBCOMMANDS];
+  }
+  const subcommand = words[index];
+  const args = words.slice(index + 1).filter((w) => !w.startsWith('-'));
+  if (subcommand === 'run' && args.length === 0) {
+    return [...sources.tasks(options), ...sources.services(options)];
+  }
+  if (SINGLE_SERVICE_SUBCOMMANDS.includes(subcommand)) {
+    return args.length === 0 ? sources.services(options) : [];
+  }
+  if (SERVICES_SUBCOMMANDS.includes(subcommand)) {
+    return sources.services(options).filter((s) => !args.includes(s));
+  }
+  return [];
+}
+
+/**
+ * The script that hooks `program` into a shell's completion. It asks `<program> __complete` for
+ * the suggestions and falls back to file names when there are none.
+ */
+export function completionScript(shell: CompletionShell, program = 'compose-cat'): string {
+  const fn = `_${program.replace(/[^A-Za-z0-9]/g, '_')}`;
+  switch (shell) {
+    case 'bash':
+      return `# bash completion for ${program}
+# Load it with: source <(${program} cmp-completion bash)
+${fn}() {
+  local IFS=$'\\n'
+  COMPREPLY=($(${program} __complete "$((COMP_CWORD - 1))" "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null))
+}
+complete -o default -F ${fn} ${program}
+`;
+    case 'zsh':
+      return `#compdef ${program}
+# zsh completion for ${program}
+# Load it with: source <(${program} cmp-completion zsh), or save it as _${program} in your $fpath.
+${fn}() {
+  local -a candidates
+  candidates=("\${(@f)$(${program} __complete "$((CURRENT - 2))" "\${(@)words[2,CURRENT]}" 2>/dev/null)}")
+  candidates=(\${candidates:#})
+  if (( \${#candidates} )); then
+    compadd -a candidates
+  else
+    _files
+  fi
+}
+if [ "$funcstack[1]" = "_${program}" ]; then
+  ${fn} "$@"
+else
+  compdef ${fn} ${program}
+fi
+`;
+    case 'fish':
+      return `# fish completion for ${program}
+# Load it with: ${program} cmp-completion fish | source
+function ${fn}
+    set -l tokens (commandline -opc)
+    set -l current (commandline -ct)
+    set -l candidates (${program} __complete (math (count $tokens) - 1) $tokens[2..-1] "$current" 2>/dev/null)
+    if test (count $candidates) -gt 0
+        printf '%s\\n' $candidates
+    else
+        __fish_complete_path "$current"
+    end
+end
+complete -c ${program} -f -a '(${fn})'
+`;
+    case 'powershell':
+      return `# PowerShell completion for ${program}
+# Load it with: ${program} cmp-completion powershell | Out-String | Invoke-Expression
+Register-ArgumentCompleter -Native -CommandName '${program}' -ScriptBlock {
+    param($wordToComplete, $commandAst, $cursorPosition)
+    $words = @($commandAst.CommandElements |
+        Where-Object { $_.Extent.StartOffset -lt $cursorPosition } |
+        Select-Object -Skip 1 |
+        ForEach-Object { $_.ToString() })
+    $cword = if ($wordToComplete -eq '') { $words.Count } else { $words.Count - 1 }
+    ${program} __complete $cword @words 2>$null | ForEach-Object {
+        [System.Management.Automation.CompletionResult]::new($_, $_, 'ParameterValue', $_)
+    }
+}
+`;
+  }
+}
@@ -0,0 +1,119 @@
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+
+// Default compose file stems in compose's own lookup order.
+const COMPOSE_FILE_STEMS = ['compose', 'docker-compose'];
+const COMPOSE_FILE_EXTS = ['yaml', 'yml'];
+
+// Compose global options that take a separate value (`-p <name> up`), needed to find where the
+// subcommand starts.
+export const GLOBAL_OPTIONS_WITH_VALUE = [
+  '-f',
+  '--file',
+  '-p',
+  '--project-name',
+  '--profile',
+  '--env-file',
+  '--project-directory',
+  '--ansi',
+  '--progress',
+  '--parallel',
+];
+
+function findWithExt(dir: string, stem: string): string | undefined {
+  for (const ext of COMPOSE_FILE_EXTS) {
+    const file = path.resolve(dir, `${stem}.${ext}`);
+    if (existsSync(file)) return file;
+  }
+  return undefined;
+}
+
+/**
+ * Layer compose files the same way dotenv files are layered: the base file and
+ * `<stem>.override.<ext>` first, then `<stem>.<profile>.<ext>` and `<stem>.<profile>.local.<ext>`
+ * for each profile. `<stem>` follows the base file (`compose` or `docker-compose`).
+ *
+ * Returns an empty list when no profile specific file exists, leaving compose's own discovery of
+ * the base and override files untouched.
+ */
+export function detectComposeFiles(cwd: string, profiles: string[]): string[] {
+  for (const stem of COMPOSE_FILE_STEMS) {
+    const base = findWithExt(cwd, stem);
+    if (!base) continue;
+
+    const profileFiles: string[] = [];
+    for (const p of profiles) {
+      for (const variant of [`${stem}.${p}`, `${stem}.${p}.local`]) {
+        const file = findWithExt(cwd, variant);
+        if (file) profileFiles.push(file);
+      }
+    }
+    if (profileFiles.length === 0) return [];
+
+    const override = findWithExt(cwd, `${stem}.override`);
+    return [base, ...(override ? [override] : []), ...profileFiles];
+  }
+  return [];
+}
+
+/**
+ * Every compose file name compose or detectComposeFiles would pick up for these profiles, whether
+ * it exists or not.
+ */
+export function composeFileCandidates(cwd: string, profiles: string[]): string[] {
+  const variants = ['', '.override', ...profiles.flatMap((p) => [`.${p}`, `.${p}.local`])];
+  return COMPOSE_FILE_STEMS.flatMap((stem) =>
+    variants.flatMap((v) =>
+      COMPOSE_FILE_EXTS.map((ext) => path.resolve(cwd, `${stem}${v}.${ext}`)),
+    ),
+  );
+}
+
+/**
+ * Whether the user already passed `-f`/`--file` as a compose global option. Only arguments before
+ * the subcommand count, so `logs -f` (follow) is not mistaken for a file flag.
+ */
+export function hasExplicitComposeFile(args: string[]): boolean {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('-')) return false;
+    if (arg === '-f' || arg === '--file' || arg.startsWith('--file=') || /^-f.+/.test(arg)) {
+      return true;
+    }
+    if (GLOBAL_OPTIONS_WITH_VALUE.includes(arg)) i++;
+  }
+  return false;
+}
+
+/**
+ * Names of the services declared in compose files, read from the YAML text without compose: the
+ * keys one level below a top-level `services:`. Missing files are skipped; `include`, `extends`
+ * and flow-style mappings are not followed. Good enough for shell completion.
+ */
+export function readComposeServices(files: string[]): string[] {
+  const services = new Set<string>();
+  for (const file of files) {
+    let content: string;
+    try {
+      content = readFileSync(file, 'utf8');
+    } catch {
+      continue;
+    }
+    let inServices = false;
+    let level: number | undefined;
+    for (const line of content.split(/\r?\n/)) {
+      if (/^\s*(#.*)?$/.test(line)) continue;
+      const indent = line.length - line.trimStart().length;
+      if (indent === 0) {
+        inServices = /^services\s*:\s*(#.*)?$/.test(line);
+        level = undefined;
+        continue;
+      }
+      if (!inServices) continue;
+      level ??= indent;
+      const key = line.match(/^\s*(["']?)([\w.-]+)\1\s*:(\s|$)/);
+      if (indent === level && key) services.add(key[2]);
+    }
+  }
+  return [...services];
+}
@@ -0,0 +1,224 @@
+import { mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { Logger, silentLogger } from './logger.js';
+
+/**
+ * What implements compose: Compose v2 (`docker compose` or a standalone v2 binary), the legacy
+ * Python docker-compose v1, podman-compose, or `podman compose`, which delegates to one of those.
+ */
+export type ComposeFlavour = 'docker-v2' | 'docker-v1' | 'podman' | 'podman-compose' | 'unknown';
+
+// Flags buildComposeArgs emits that not every flavour accepts.
+export type ComposeCapabilities = {
+  multipleEnvFiles: boolean;
+  multipleProfiles: boolean;
+};
+
+export type ComposeInfo = {
+  flavour: ComposeFlavour;
+  version?: string;
+  capabilities: ComposeCapabilities;
+};
+
+type ProbeCacheEntry = {
+  // Of the program and of the compose plugin or provider behind it, see `probeCacheKey`.
+  mtimeMs: number[];
+  exitCode: number;
+  info: ComposeInfo;
+};
+
+type ProbeCache = Record<string, ProbeCacheEntry>;
+
+// Compare dotted versions numerically; pre-release suffixes are ignored.
+function versionAtLeast(version: string | undefined, minimum: string): boolean {
+  if (!version) return true;
+  const parts = version.split(/[.+-]/).map((p) => parseInt(p, 10) || 0);
+  const min = minimum.split('.').map(Number);
+  for (let i = 0; i < min.length; i++) {
+    if ((parts[i] ?? 0) !== min[i]) return (parts[i] ?? 0) > min[i];
+  }
+  return true;
+}
+
+// Unknown versions are assumed to be recent; unknown flavours to support everything.
+function capabilitiesOf(flavour: ComposeFlavour, version?: string): ComposeCapabilities {
+  switch (flavour) {
+    case 'docker-v2':
+      return { multipleEnvFiles: versionAtLeast(version, '2.17.0'), multipleProfiles: true };
+    case 'docker-v1':
+      return { multipleEnvFiles: false, multipleProfiles: true };
+    case 'podman-compose':
+      return {
+        multipleEnvFiles: versionAtLeast(version, '1.1.0'),
+        multipleProfiles: versionAtLeast(version, '1.1.0'),
+      };
+    default:
+      return { multipleEnvFiles: true, multipleProfiles: true };
+  }
+}
+
+/**
+ * Identify the flavour and version from the output of `<bin> version`. For `podman compose` the
+ * output is the one of its provider, which also decides the capabilities.
+ */
+export function parseComposeVersion(bin: string[], output: string): ComposeInfo {
+  const patterns: [Exclude<ComposeFlavour, 'podman' | 'unknown'>, RegExp][] = [
+    ['podman-compose', /podman-compose version:?\s*v?(\d+(?:\.\d+)+)/i],
+    ['docker-v2', /Docker Compose version\s+v?(\d+(?:\.\d+)+[^\s,]*)/i],
+    ['docker-v1', /docker-compose version\s+v?(\d+(?:\.\d+)+)/i],
+  ];
+  let implementation: ComposeFlavour = 'unknown';
+  let version = output.match(/\d+\.\d+\.\d+/)?.[0];
+  for (const [flavour, pattern] of patterns) {
+    const m = output.match(pattern);
+    if (!m) continue;
+    implementation = flavour;
+    version = m[1];
+    break;
+  }
+  const isPodmanWrapper =
+    /^podman(\.exe)?$/i.test(path.basename(bin[0] ?? '')) && bin[1] === 'compose';
+  return {
+    flavour: isPodmanWrapper ? 'podman' : implementation,
+    version,
+    capabilities: capabilitiesOf(implementation, version),
+  };
+}
+
+// Locate a program like the shell would: relative to the cwd when it has a path, else on PATH.
+export function findExecutable(
+  name: string,
+  env: NodeJS.ProcessEnv,
+  cwd = process.cwd(),
+): string | undefined {
+  const isFile = (file: string) => {
+    try {
+      return statSync(file).isFile();
+    } catch {
+      return false;
+    }
+  };
+  const exts = process.platform === 'win32' ? ['', ...(env.PATHEXT ?? '.EXE').split(';')] : [''];
+  const dirs = /[\\/]/.test(name) ? [cwd] : (env.PATH ?? '').split(path.delimiter).filter(Boolean);
+  for (const dir of dirs) {
+    for (const ext of exts) {
+      const file = path.resolve(dir, name + ext);
+      if (isFile(file)) return file;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Where `<bin> version` probes are cached: `file` when given (false disables the cache), else
+ * `$XDG_CACHE_HOME/compose-cat/probe-cache.json`, falling back to ~/.cache (or %LOCALAPPDATA%).
+ */
+export function probeCacheFile(env: NodeJS.ProcessEnv, file?: string | false): string | undefined {
+  if (file !== undefined) return file || undefined;
+  const dir =
+    env.XDG_CACHE_HOME ||
+    (process.platform === 'win32' ? env.LOCALAPPDATA : undefined) ||
+    (env.HOME ? path.join(env.HOME, '.cache') : undefined);
+  return dir ? path.join(dir, 'compose-cat', 'probe-cache.json') : undefined;
+}
+
+function readProbeCache(file: string): ProbeCache {
+  try {
+    const raw = JSON.parse(readFileSync(file, 'utf8'));
+    return typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? raw : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * The file that implements `<program> compose`: the Docker CLI plugin, or the provider `podman
+ * compose` delegates to (`PODMAN_COMPOSE_PROVIDER`, else docker-compose or podman-compose on PATH,
+ * as podman looks them up). Undefined for other programs or when none is found.
+ */
+export function composePluginFile(
+  program: string,
+  bin: string[],
+  env: NodeJS.ProcessEnv,
+): string | undefined {
+  if (bin[1] !== 'compose') return undefined;
+  const name = path.basename(program).toLowerCase();
+  const exe = process.platform === 'win32' ? '.exe' : '';
+  if (/^podman(\.exe)?$/.test(name)) {
+    const providers = env.PODMAN_COMPOSE_PROVIDER
+      ? [env.PODMAN_COMPOSE_PROVIDER]
+      : ['docker-compose', 'podman-compose'];
+    for (const provider of providers) {
+      const file = findExecutable(provider, env);
+      if (file) return file;
+    }
+    return undefined;
+  }
+  if (!/^docker(\.exe)?$/.test(name)) return undefined;
+  const home = env.HOME ?? env.USERPROFILE;
+  const configDir = env.DOCKER_CONFIG ?? (home ? path.join(home, '.docker') : undefined);
+  const dirs = [
+    ...(configDir ? [path.join(configDir, 'cli-plugins')] : []),
+    ...(process.platform === 'win32'
+      ? [path.join(env.ProgramData ?? 'C:\\ProgramData', 'Docker', 'cli-plugins')]
+      : [
+          '/usr/local/lib/docker/cli-plugins',
+          '/usr/local/libexec/docker/cli-plugins',
+          '/usr/lib/docker/cli-plugins',
+          '/usr/libexec/docker/cli-plugins',
+        ]),
+  ];
+  for (const dir of dirs) {
+    const file = path.join(dir, `docker-compose${exe}`);
+    try {
+      if (statSync(file).isFile()) return file;
+    } catch {
+      // Not in this directory.
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Cached probe results are keyed by the candidate, PATH, the program file it resolved to and the
+ * compose plugin or provider behind it, and only valid while the mtimes of those files are
+ * unchanged. Upgrading only the plugin of `docker compose` therefore probes again.
+ */
+export function probeCacheKey(
+  bin: string[],
+  env: NodeJS.ProcessEnv,
+  program: string,
+  plugin?: string,
+): string {
+  return JSON.stringify([bin, env.PATH ?? '', program, plugin ?? null]);
+}
+
+export function readCachedProbe(
+  file: string,
+  key: string,
+  mtimeMs: number[],
+): ProbeCacheEntry | undefined {
+  const entry = readProbeCache(file)[key];
+  if (!entry?.info || !Array.isArray(entry.mtimeMs)) return undefined;
+  if (entry.mtimeMs.join() !== mtimeMs.join()) return undefined;
+  return entry;
+}
+
+// Best effort: a cache that cannot be written only costs the next run a probe.
+export function writeCachedProbe(
+  file: string,
+  key: string,
+  entry: ProbeCacheEntry,
+  log: Logger = silentLogger,
+) {
+  try {
+    const cache = readProbeCache(file);
+    cache[key] = entry;
+    mkdirSync(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(cache, null, 2));
+    renameSync(tmp, file);
+  } catch (err) {
+    log.debug('failed to write probe cache', { file, error: String(err) });
+  }
+}
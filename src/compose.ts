@@ -0,0 +1,255 @@
+import { spawnSync } from 'node:child_process';
+import { statSync } from 'node:fs';
+import {
+  ComposeCapabilities,
+  ComposeInfo,
+  composePluginFile,
+  findExecutable,
+  parseComposeVersion,
+  probeCacheKey,
+  readCachedProbe,
+  writeCachedProbe,
+} from './compose-info.js';
+import { GLOBAL_OPTIONS_WITH_VALUE } from './compose-files.js';
+import { formatCommand, splitCommand } from './exec.js';
+import { Logger, silentLogger } from './logger.js';
+import { BinProbe } from './plan.js';
+import { isEncryptedEnvFile } from './secrets.js';
+
+type StringMap = Record<string, string>;
+
+// Compose binaries in the order we try them when the user does not specify one.
+export const DEFAULT_COMPOSE_BINS: string[][] = [
+  ['docker', 'compose'],
+  ['podman', 'compose'],
+  ['docker-compose'],
+  ['podman-compose'],
+];
+
+/**
+ * A compose binary candidate: argv such as `['docker', 'compose']`, or text such as
+ * `"docker compose"` or `"'/opt/my tools/docker-compose'"` that is split into argv.
+ */
+export type ComposeBinCandidate = string | string[];
+
+export type ProbeOptions = {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  // Shell mode: text candidates are used as shell text verbatim instead of being split.
+  shell?: boolean;
+  // Where successful probes are cached (see probeCacheFile); no caching when undefined.
+  cacheFile?: string;
+  logger?: Logger;
+};
+
+// The argv of a candidate; undefined when its text cannot be split (an unterminated quote).
+export function composeBinArgv(
+  candidate: ComposeBinCandidate,
+  shell = false,
+): string[] | undefined {
+  if (Array.isArray(candidate)) return candidate;
+  return shell ? [candidate] : splitCommand(candidate);
+}
+
+// The program file a candidate runs, the compose plugin or provider behind it and their mtimes,
+// used to key and invalidate cached probes.
+function resolveProgram(bin: string[], shell: boolean, options: ProbeOptions) {
+  const argv = shell ? splitCommand(bin[0]) : bin;
+  const env = options.env ?? process.env;
+  const file = argv?.[0] && findExecutable(argv[0], env, options.cwd);
+  if (!file) return undefined;
+  const plugin = composePluginFile(file, argv, env);
+  const mtimeMs = [file, ...(plugin ? [plugin] : [])].map((f) => statSync(f).mtimeMs);
+  return { file, plugin, mtimeMs };
+}
+
+/**
+ * Run "<candidate> version"; the candidate is available when it exits with 0. Its output tells
+ * the flavour and version. Successful probes are cached while PATH and the mtimes of the program
+ * and its compose plugin stay the same.
+ */
+export function probeComposeBin(
+  candidate: ComposeBinCandidate,
+  options: ProbeOptions = {},
+): BinProbe {
+  const { cwd, env, shell = false, cacheFile, logger: log = silentLogger } = options;
+  const label = Array.isArray(candidate) ? formatCommand({ bin: candidate, args: [] }) : candidate;
+  const bin = composeBinArgv(candidate, shell);
+  if (!bin || bin.length === 0) {
+    return { candidate: label, available: false, exitCode: null, error: 'invalid command' };
+  }
+
+  const program = cacheFile ? resolveProgram(bin, shell, options) : undefined;
+  const cacheKey =
+    program &&
+    probeCacheKey(shell ? ['sh', ...bin] : bin, env ?? process.env, program.file, program.plugin);
+  const cached =
+    cacheFile && cacheKey ? readCachedProbe(cacheFile, cacheKey, program.mtimeMs) : undefined;
+  if (cached) {
+    log.debug('using cached compose probe', { candidate: label, file: cacheFile });
+    return {
+      candidate: label,
+      available: true,
+      exitCode: cached.exitCode,
+      cached: true,
+      ...cached.info,
+    };
+  }
+
+  const spawnOptions = { stdio: 'pipe', encoding: 'utf8', timeout: 2000, cwd, env } as const;
+  const res = shell
+    ? spawnSync(formatCommand({ bin, args: ['version'] }, true), { ...spawnOptions, shell: true })
+    : spawnSync(bin[0], [...bin.slice(1), 'version'], spawnOptions);
+  const probe: BinProbe = {
+    candidate: label,
+    available: res.status === 0,
+    exitCode: res.status,
+    error: res.error?.message,
+  };
+  if (!probe.available) return probe;
+
+  const info = parseComposeVersion(bin, `${res.stdout ?? ''}\n${res.stderr ?? ''}`);
+  if (cacheFile && cacheKey) {
+    writeCachedProbe(cacheFile, cacheKey, { mtimeMs: program.mtimeMs, exitCode: 0, info }, log);
+  }
+  return { ...probe, ...info };
+}
+
+/**
+ * Probe the candidates in order and pick the first one that works. `binProbes` holds the probes
+ * that were run, so it ends with the selected binary (or lists every failure).
+ */
+export function resolveComposeBinary(
+  candidates: ComposeBinCandidate[] = DEFAULT_COMPOSE_BINS,
+  options: ProbeOptions = {},
+): { composeBin?: string[]; composeInfo?: ComposeInfo; binProbes: BinProbe[] } {
+  const binProbes: BinProbe[] = [];
+  for (const candidate of candidates) {
+    const probe = probeComposeBin(candidate, options);
+    binProbes.push(probe);
+    if (probe.available) {
+      const { flavour = 'unknown', version, capabilities } = probe;
+      return {
+        composeBin: composeBinArgv(candidate, options.shell),
+        composeInfo: {
+          flavour,
+          version,
+          capabilities: capabilities ?? { multipleEnvFiles: true, multipleProfiles: true },
+        },
+        binProbes,
+      };
+    }
+  }
+  return { binProbes };
+}
+
+/**
+ * Drop the repeated `--env-file` and `--profile` flags the compose binary does not accept. The
+ * caller hands their values to compose through its environment instead (`passEnv`,
+ * COMPOSE_PROFILES).
+ */
+export function adaptComposeFlags(
+  capabilities: ComposeCapabilities,
+  envFiles: string[],
+  profiles: string[],
+): { envFiles: string[]; profiles: string[]; passEnv: boolean; warnings: string[] } {
+  const warnings: string[] = [];
+  let passEnv = false;
+  const plainEnvFiles = envFiles.filter((f) => !isEncryptedEnvFile(f));
+  if (plainEnvFiles.length > 1 && !capabilities.multipleEnvFiles) {
+    warnings.push(
+      'compose binary does not support multiple --env-file flags; passing dotenv values through the environment',
+    );
+    envFiles = [];
+    passEnv = true;
+  }
+  if (profiles.length > 1 && !capabilities.multipleProfiles) {
+    warnings.push(
+      'compose binary does not support multiple --profile flags; passing profiles as COMPOSE_PROFILES',
+    );
+    profiles = [];
+  }
+  return { envFiles, profiles, passEnv, warnings };
+}
+
+export function buildComposeArgs(
+  envFiles: string[],
+  mergedEnv: StringMap,
+  profiles: string[],
+  extraArgs: string[],
+  composeFiles: string[] = [],
+): string[] {
+  const args: string[] = [];
+
+  for (const p of profiles) {
+    args.push('--profile', p);
+  }
+
+  // Compose cannot read encrypted files; their values reach it through the process env instead.
+  for (const f of envFiles) {
+    if (isEncryptedEnvFile(f)) continue;
+    args.push('--env-file', f);
+  }
+
+  for (const f of composeFiles) {
+    args.push('-f', f);
+  }
+
+  args.push(...extraArgs);
+  return args;
+}
+
+// The compose invocation as it is logged and shown in plans.
+export function composeCommand(composeBin: string[], args: string[], shell = false): string {
+  return formatCommand({ bin: composeBin, args }, shell);
+}
+
+// Index of the compose subcommand in `args` (e.g. "up"), skipping global options and their values.
+export function composeSubcommandIndex(args: string[]): number {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (GLOBAL_OPTIONS_WITH_VALUE.includes(arg)) i++;
+    else if (!arg.startsWith('-')) return i;
+  }
+  return -1;
+}
+
+// The short options of `compose up`: `-d` (detach), `-V`, `-y` and `-t`, whose value may follow
+// in the same word.
+const UP_SHORT_FLAGS = 'dVyt';
+
+// Whether `up` with these args returns once the services started: `-d`/`--detach`, or `--wait`,
+// which implies it. For each flag the last occurrence wins, and `=<bool>` is parsed like compose
+// does.
+function upDetaches(upArgs: string[]): boolean {
+  let detach = false;
+  let wait = false;
+  for (let i = 0; i < upArgs.length; i++) {
+    const arg = upArgs[i];
+    if (arg === '--') break;
+    const long = /^--(detach|wait)(?:=(.*))?$/.exec(arg);
+    if (long) {
+      const value = long[2] === undefined || !/^(0|f|false)$/i.test(long[2]);
+      if (long[1] === 'detach') detach = value;
+      else wait = value;
+    } else if (arg === '-t' || arg === '--timeout') {
+      i++;
+    } else if (/^-[a-zA-Z]/.test(arg)) {
+      // A cluster such as `-dV` or `-dt5`; one with an unknown flag is not something compose runs.
+      const flags = arg.slice(1).split('t')[0];
+      if ([...flags].every((c) => UP_SHORT_FLAGS.includes(c)) && flags.includes('d')) detach = true;
+    }
+  }
+  return detach || wait;
+}
+
+/**
+ * For a foreground `up` invocation, the `down` invocation with the same global options; undefined
+ * for any other subcommand and for a detached `up` (`-d` or `--wait`).
+ */
+export function downInvocation(args: string[]): string[] | undefined {
+  const index = composeSubcommandIndex(args);
+  if (index < 0 || args[index] !== 'up') return undefined;
+  if (upDetaches(args.slice(index + 1))) return undefined;
+  return [...args.slice(0, index), 'down'];
+}
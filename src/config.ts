@@ -0,0 +1,268 @@
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { EnvSchema, validateEnvSchema } from './env-schema.js';
+import { LOG_FORMATS, LOG_LEVELS } from './logger.js';
+import { ProjectEntry, validateProjects } from './projects.js';
+import { TaskDefinition, validateTasks } from './tasks.js';
+
+// File names searched for in the cwd and each parent directory, first match wins.
+export const CONFIG_FILE_NAMES = ['compose-cat.config.json', '.composecatrc'];
+
+// A cascading lookup stops at the nearest directory with one of these: a git checkout or a config.
+const ROOT_MARKERS = ['.git', ...CONFIG_FILE_NAMES];
+
+/**
+ * Defaults for the CLI options. Keys mirror the camelCased commander option names so a config
+ * value and its flag are resolved by the same code path.
+ */
+export type ConfigOptions = {
+  cmpBin?: string[];
+  cmpPrefix?: string;
+  cmpDotenvPrefix?: string;
+  cmpHook?: string[];
+  hooksDir?: string;
+  profile?: string[];
+  disableProfileBasedDotenv?: boolean;
+  disableDotenvExpansion?: boolean;
+  disableProfileBasedComposeFiles?: boolean;
+  // Profiles pulled in by `<prefix>EXTENDS` only contribute their dotenv files, not compose flags.
+  extendsEnvOnly?: boolean;
+  // Also load dotenv files and hooks of the parent directories up to the project root.
+  cascade?: boolean;
+  downOnExit?: boolean;
+  // Run hooks and compose through the shell instead of spawning them directly.
+  shell?: boolean;
+  // How long an interrupted or timed out command may take to exit before it is killed, e.g. "10s".
+  gracePeriod?: string;
+  logLevel?: string;
+  logFormat?: string;
+  logRedactPatterns?: string[];
+};
+
+// Options a profile override may change. Selecting profiles from inside a profile is not allowed.
+export type ProfileConfigOptions = Omit<ConfigOptions, 'profile'>;
+
+export type ComposeCatConfig = ConfigOptions & {
+  profiles?: Record<string, ProfileConfigOptions>;
+  envSchema?: EnvSchema;
+  tasks?: Record<string, TaskDefinition>;
+  // Projects of `cmp-each`; directories and globs are relative to the config file.
+  projects?: ProjectEntry[];
+};
+
+export type LoadedConfig = {
+  file?: string;
+  config: ComposeCatConfig;
+  errors: string[];
+};
+
+type OptionKind = 'string' | 'string[]' | 'boolean';
+
+const optionKinds: Record<keyof ConfigOptions, OptionKind> = {
+  cmpBin: 'string[]',
+  cmpPrefix: 'string',
+  cmpDotenvPrefix: 'string',
+  cmpHook: 'string[]',
+  hooksDir: 'string',
+  profile: 'string[]',
+  disableProfileBasedDotenv: 'boolean',
+  disableDotenvExpansion: 'boolean',
+  disableProfileBasedComposeFiles: 'boolean',
+  extendsEnvOnly: 'boolean',
+  cascade: 'boolean',
+  downOnExit: 'boolean',
+  shell: 'boolean',
+  gracePeriod: 'string',
+  logLevel: 'string',
+  logFormat: 'string',
+  logRedactPatterns: 'string[]',
+};
+
+// Allowed values for string options that are not free-form.
+const optionChoices: Partial<Record<keyof ConfigOptions, string[]>> = {
+  logLevel: LOG_LEVELS,
+  logFormat: LOG_FORMATS,
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Walk from `startDir` up to the filesystem root and return the first config file found.
+ */
+export function findConfigFile(startDir: string): string | undefined {
+  let dir = path.resolve(startDir);
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const file = path.join(dir, name);
+      if (existsSync(file)) return file;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * The directories from the project root down to `startDir`, outermost first. The root is the
+ * nearest directory (`startDir` included) with a `.git` entry or a config file; without one only
+ * `startDir` is returned.
+ */
+export function cascadeDirs(startDir: string): string[] {
+  const dirs: string[] = [];
+  let dir = path.resolve(startDir);
+  while (true) {
+    dirs.unshift(dir);
+    if (ROOT_MARKERS.some((name) => existsSync(path.join(dir, name)))) return dirs;
+    const parent = path.dirname(dir);
+    if (parent === dir) return [path.resolve(startDir)];
+    dir = parent;
+  }
+}
+
+// Validate a single option value. `string[]` options also accept a plain string, and `profile`
+// accepts comma-separated values just like the CLI flag.
+function validateOption(
+  key: keyof ConfigOptions,
+  value: unknown,
+  where: string,
+  errors: string[],
+): unknown {
+  const kind = optionKinds[key];
+  if (kind === 'boolean') {
+    if (typeof value === 'boolean') return value;
+    errors.push(`${where}: "${key}" must be a boolean`);
+    return undefined;
+  }
+  if (kind === 'string') {
+    const choices = optionChoices[key];
+    if (typeof value === 'string' && (!choices || choices.includes(value))) return value;
+    errors.push(
+      choices
+        ? `${where}: "${key}" must be one of ${choices.join(', ')}`
+        : `${where}: "${key}" must be a string`,
+    );
+    return undefined;
+  }
+  const arr = typeof value === 'string' ? [value] : value;
+  if (Array.isArray(arr) && arr.every((v) => typeof v === 'string')) {
+    return arr
+      .flatMap((v: string) => (key === 'profile' ? v.split(',') : [v]))
+      .map((v) => v.trim())
+      .filter(Boolean);
+  }
+  errors.push(`${where}: "${key}" must be a string or an array of strings`);
+  return undefined;
+}
+
+function validateOptions(
+  raw: Record<string, unknown>,
+  where: string,
+  allowed: (keyof ConfigOptions)[],
+  errors: string[],
+): ConfigOptions {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!allowed.includes(key as keyof ConfigOptions)) {
+      errors.push(`${where}: unknown key "${key}"`);
+      continue;
+    }
+    const validated = validateOption(key as keyof ConfigOptions, value, where, errors);
+    if (validated !== undefined) out[key] = validated;
+  }
+  return out as ConfigOptions;
+}
+
+/**
+ * Check a parsed config object, collecting every unknown key and type mismatch instead of stopping
+ * at the first one so users can fix their file in a single pass.
+ */
+export function validateConfig(
+  raw: unknown,
+  source: string,
+): { config: ComposeCatConfig; errors: string[] } {
+  const errors: string[] = [];
+  if (!isPlainObject(raw)) {
+    return { config: {}, errors: [`${source}: config must be a JSON object`] };
+  }
+
+  const { profiles, envSchema, tasks, projects, ...rest } = raw;
+  const optionKeys = Object.keys(optionKinds) as (keyof ConfigOptions)[];
+  const config: ComposeCatConfig = validateOptions(rest, source, optionKeys, errors);
+
+  if (profiles !== undefined) {
+    if (!isPlainObject(profiles)) {
+      errors.push(`${source}: "profiles" must be an object keyed by profile name`);
+    } else {
+      const profileKeys = optionKeys.filter((k) => k !== 'profile');
+      config.profiles = {};
+      for (const [name, overrides] of Object.entries(profiles)) {
+        const where = `${source}: profiles.${name}`;
+        if (!isPlainObject(overrides)) {
+          errors.push(`${where}: must be an object`);
+          continue;
+        }
+        config.profiles[name] = validateOptions(overrides, where, profileKeys, errors);
+      }
+    }
+  }
+
+  if (envSchema !== undefined) {
+    const validated = validateEnvSchema(envSchema, `${source}: envSchema`);
+    config.envSchema = validated.schema;
+    errors.push(...validated.errors);
+  }
+
+  if (tasks !== undefined) {
+    const validated = validateTasks(tasks, source);
+    config.tasks = validated.tasks;
+    errors.push(...validated.errors);
+  }
+
+  if (projects !== undefined) {
+    const validated = validateProjects(projects, source);
+    config.projects = validated.projects;
+    errors.push(...validated.errors);
+  }
+
+  return { config, errors };
+}
+
+/**
+ * Locate, parse and validate the nearest config file. A missing file is not an error; the returned
+ * config is simply empty.
+ */
+export function loadConfig(startDir: string): LoadedConfig {
+  const file = findConfigFile(startDir);
+  if (!file) return { config: {}, errors: [] };
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    return { file, config: {}, errors: [`${file}: failed to parse config: ${reason}`] };
+  }
+
+  return { file, ...validateConfig(raw, file) };
+}
+
+/**
+ * Collapse the base config and the overrides of each active profile (in CLI order, later profiles
+ * win) into a single set of option defaults.
+ */
+export function resolveConfigOptions(config: ComposeCatConfig, profiles: string[]): ConfigOptions {
+  const {
+    profiles: overrides,
+    envSchema: _envSchema,
+    tasks: _tasks,
+    projects: _projects,
+    ...base
+  } = config;
+  const resolved: ConfigOptions = { ...base };
+  for (const p of profiles) {
+    Object.assign(resolved, overrides?.[p]);
+  }
+  return resolved;
+}
@@ -0,0 +1,218 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { probeCacheFile } from './compose-info.js';
+import { probeComposeBin } from './compose.js';
+import {
+  DEFAULT_PREFIX,
+  dotenvFileCandidates,
+  resolveEnvironment,
+  resolveOptions,
+} from './environment.js';
+import { PROCESS_ENV_SOURCE } from './env-report.js';
+import { parseDuration } from './exec.js';
+import { lintHookFiles } from './hooks.js';
+import { composeBinCandidates, RunOptions } from './runner.js';
+import { isEncryptedEnvFile } from './secrets.js';
+
+export type DoctorFormat = 'text' | 'json';
+
+export const DOCTOR_FORMATS: DoctorFormat[] = ['text', 'json'];
+
+export type DoctorSeverity = 'ok' | 'info' | 'warn' | 'error';
+
+export type DoctorSection = 'config' | 'compose' | 'dotenv' | 'hooks' | 'prefix';
+
+export type DoctorFinding = {
+  section: DoctorSection;
+  severity: DoctorSeverity;
+  // What the finding is about: a file relative to the cwd, a compose binary or a variable.
+  subject: string;
+  message: string;
+};
+
+export type DoctorReport = {
+  cwd: string;
+  findings: DoctorFinding[];
+  errors: number;
+  warnings: number;
+};
+
+const SECTION_TITLES: Record<DoctorSection, string> = {
+  config: 'config',
+  compose: 'compose binaries',
+  dotenv: 'dotenv files',
+  hooks: 'hooks',
+  prefix: 'prefix',
+};
+
+// Variables compose-cat sets under the prefix, replacing whatever a dotenv file assigned.
+const GENERATED_KEYS = [
+  /^PROFILES$/,
+  /^PROFILE_\d+$/,
+  /^DETECTED_COMPOSE_(BIN|FLAVOUR|VERSION)$/,
+  /^HOOK_(EVENT|COMMAND|PLATFORM|BINARY|FILE|ENV_OUT|EXIT_REASON)$/,
+];
+// Variables compose-cat reads under the prefix.
+const READ_KEYS = ['COMPOSE_BIN', 'SECRETS_KEY', 'SECRETS_KEY_FILE', 'EXTENDS'];
+
+/**
+ * Report the problems of a dotenv file the dotenv parser silently skips: lines that are not
+ * `KEY=VALUE` and quoted values that are never closed.
+ */
+function lintDotenv(content: string): string[] {
+  const problems: string[] = [];
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^\s*(#.*)?$/.test(line)) continue;
+    const m = line.match(/^\s*(?:export\s+)?[\w.-]+(?:\s*=|:\s)\s*(?<value>.*)$/);
+    if (!m) {
+      problems.push(`line ${i + 1}: not KEY=VALUE, the line is ignored`);
+      continue;
+    }
+    // A quoted value may span lines until its closing quote.
+    const quote = m.groups?.value.match(/^["'`]/)?.[0];
+    if (!quote || m.groups?.value.slice(1).includes(quote)) continue;
+    const end = lines.findIndex((l, j) => j > i && l.includes(quote));
+    if (end < 0) {
+      problems.push(`line ${i + 1}: ${quote} quote is never closed`);
+      break;
+    }
+    i = end;
+  }
+  return problems;
+}
+
+/**
+ * Check a project without running anything but the `<bin> version` probes: config, compose binary
+ * candidates, dotenv files, hook files and prefix conflicts. Env providers are listed, not run.
+ * Problems that would make a run fail or a hook never run are errors.
+ */
+export function runDoctor(options: RunOptions = {}): DoctorReport {
+  const findings: DoctorFinding[] = [];
+  const add = (
+    section: DoctorSection,
+    severity: DoctorSeverity,
+    subject: string,
+    message: string,
+  ) => findings.push({ section, severity, subject, message });
+
+  // resolveOptions only fails on the config; any later error is about the dotenv files.
+  const optionsErrors = resolveOptions(options).errors;
+  const environment = resolveEnvironment({ ...options, skipEnvProviders: true });
+  const { cwd, env, config, configFile, prefix, provenance, envFiles } = environment;
+  const relative = (file: string) => path.relative(cwd, file) || file;
+
+  const configSubject = configFile ? relative(configFile) : '(no config file)';
+  if (optionsErrors.length > 0) {
+    for (const err of optionsErrors) add('config', 'error', configSubject, err);
+  } else {
+    add('config', 'ok', configSubject, configFile ? 'loaded' : 'defaults apply');
+  }
+  const gracePeriod = options.gracePeriod ?? config.gracePeriod;
+  if (gracePeriod !== undefined && parseDuration(gracePeriod) === undefined) {
+    add('config', 'error', 'gracePeriod', `invalid grace period "${gracePeriod}"`);
+  }
+
+  // Every candidate is probed so a broken one is visible even when a later one works.
+  const shell = options.shell ?? config.shell ?? false;
+  const cacheFile = probeCacheFile(env, options.probeCache);
+  const probes = composeBinCandidates(options, environment).map((c) =>
+    probeComposeBin(c, { cwd, env, shell, cacheFile }),
+  );
+  const selected = probes.find((p) => p.available);
+  for (const probe of probes) {
+    const detected = [probe.flavour, probe.version].filter(Boolean).join(' ');
+    if (probe.available) {
+      const note = probe === selected ? 'selected' : 'available, not used';
+      add('compose', 'ok', probe.candidate, `${detected} (${note})`);
+    } else {
+      const reason = probe.error ?? `exit ${probe.exitCode ?? 'none'}`;
+      add('compose', selected ? 'info' : 'error', probe.candidate, `unavailable (${reason})`);
+    }
+  }
+  if (!selected) add('compose', 'error', '(none)', 'no compose binary detected');
+
+  if (optionsErrors.length === 0) {
+    for (const file of envFiles) {
+      if (isEncryptedEnvFile(file)) continue;
+      if (environment.skippedEnvProviders.includes(file)) {
+        add('dotenv', 'info', relative(file), 'env provider, would run (not run by the doctor)');
+        continue;
+      }
+      let content: string;
+      try {
+        content = readFileSync(file, 'utf8');
+      } catch {
+        continue; // reported by resolveEnvironment
+      }
+      const problems = lintDotenv(content);
+      for (const problem of problems) add('dotenv', 'error', relative(file), problem);
+      if (problems.length === 0) add('dotenv', 'ok', relative(file), 'parsed');
+    }
+    for (const err of environment.errors) add('dotenv', 'error', '(merge)', err);
+    // Values the env providers print are unknown here.
+    const skipped = environment.skippedEnvProviders.length > 0;
+    for (const violation of environment.schemaViolations) {
+      add('dotenv', skipped ? 'warn' : 'error', '(env schema)', violation);
+    }
+  }
+
+  const hookIssues = environment.dirs.flatMap((dir) =>
+    lintHookFiles({
+      cwd: dir,
+      hooksDir: options.hooksDir ?? config.hooksDir,
+      hookNames: options.cmpHook ?? config.cmpHook ?? [],
+    }),
+  );
+  for (const issue of hookIssues) add('hooks', issue.severity, relative(issue.file), issue.message);
+
+  if (prefix === '' || /^(COMPOSE|DOCKER)_/.test(prefix)) {
+    add('prefix', 'warn', prefix || '(empty)', 'overlaps the variables compose and docker read');
+  }
+  for (const [key, sources] of Object.entries(provenance)) {
+    // Values from the process env may come from an outer compose-cat run and are expected.
+    const fromFile = sources.filter((s) => s.source !== PROCESS_ENV_SOURCE);
+    const generated = GENERATED_KEYS.some((p) => p.test(key.slice(prefix.length)));
+    if (fromFile.length === 0 || !key.startsWith(prefix) || !generated) continue;
+    const file = relative(fromFile[fromFile.length - 1].source);
+    add('prefix', 'warn', key, `set in ${file}, but compose-cat sets it itself`);
+  }
+  // Profiles are only extended from their own dotenv files.
+  const baseFiles = dotenvFileCandidates(environment).base;
+  for (const source of provenance[`${prefix}EXTENDS`] ?? []) {
+    if (!baseFiles.includes(source.source)) continue;
+    const message = `set in ${relative(source.source)}, but only profile dotenv files extend profiles`;
+    add('prefix', 'warn', `${prefix}EXTENDS`, message);
+  }
+  if (prefix !== DEFAULT_PREFIX) {
+    const ignored = { ...env, ...environment.mergedEnv };
+    for (const name of READ_KEYS) {
+      const key = `${DEFAULT_PREFIX}${name}`;
+      if (ignored[key] === undefined) continue;
+      add('prefix', 'warn', key, `ignored with prefix ${prefix}, set ${prefix}${name} instead`);
+    }
+  }
+
+  return {
+    cwd,
+    findings,
+    errors: findings.filter((f) => f.severity === 'error').length,
+    warnings: findings.filter((f) => f.severity === 'warn').length,
+  };
+}
+
+export function formatDoctorReport(report: DoctorReport, format: DoctorFormat): string {
+  if (format === 'json') return JSON.stringify(report, null, 2);
+
+  const lines: string[] = [`compose-cat doctor: ${report.cwd}`];
+  for (const [section, title] of Object.entries(SECTION_TITLES)) {
+    const findings = report.findings.filter((f) => f.section === section);
+    lines.push(`${title}:`);
+    if (findings.length === 0) lines.push('  ok     no problems found');
+    for (const f of findings) lines.push(`  ${f.severity.padEnd(6)} ${f.subject}: ${f.message}`);
+  }
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+  lines.push(`${plural(report.errors, 'error')}, ${plural(report.warnings, 'warning')}`);
+  return lines.join('\n');
+}
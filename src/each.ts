@@ -0,0 +1,205 @@
+import path from 'node:path';
+import { StringDecoder } from 'node:string_decoder';
+import { loadConfig } from './config.js';
+import { Interrupts, spawnCommand } from './exec.js';
+import { formatDuration } from './hooks.js';
+import { Logger, silentLogger } from './logger.js';
+import { Project, ProjectEntry, resolveProjects } from './projects.js';
+
+// The compose-cat command run in every project unless `bin` says otherwise.
+export const DEFAULT_EACH_BIN = ['compose-cat'];
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export type EachOptions = {
+  // Base directory of `projects` (default: process.cwd()). Projects from the config file are
+  // relative to that file instead.
+  cwd?: string;
+  // Environment every project starts from (default: process.env).
+  env?: NodeJS.ProcessEnv;
+  // Directories, globs or project definitions; defaults to `projects` of the config file.
+  projects?: ProjectEntry[];
+  // How many projects run at the same time (default: 1).
+  parallel?: number;
+  // The compose-cat command, e.g. `['node', '/path/to/cli.js']` (default: `compose-cat`).
+  bin?: string[];
+  // compose-cat arguments run in every project, e.g. `['--profile', 'dev', 'up', '-d']`.
+  args?: string[];
+  // Forwarded to every running project; projects that have not started yet are skipped.
+  interrupts?: Interrupts;
+  // Receives every output line; by default lines go to stdout/stderr prefixed with the project name.
+  onLine?: (project: string, line: string, stream: OutputStream) => void;
+  // Where progress is logged (default: nowhere).
+  logger?: Logger;
+};
+
+export type ProjectStatus = 'ok' | 'failed' | 'skipped';
+
+export type ProjectResult = {
+  name: string;
+  dir: string;
+  status: ProjectStatus;
+  exitCode?: number;
+  durationMs: number;
+  // Why a project was skipped.
+  note?: string;
+};
+
+export type EachResult = {
+  // Exit code of the first failed project in declaration order, 0 if none failed.
+  exitCode: number;
+  projects: ProjectResult[];
+  errors: string[];
+};
+
+// Output arrives in arbitrary chunks; only whole lines are passed on so parallel projects never
+// share a line.
+function lineSplitter(emit: (line: string) => void) {
+  const decoder = new StringDecoder('utf8');
+  let pending = '';
+  return {
+    write(chunk: Buffer) {
+      const lines = (pending + decoder.write(chunk)).split(/\r?\n/);
+      pending = lines.pop() ?? '';
+      for (const line of lines) emit(line);
+    },
+    end() {
+      pending += decoder.end();
+      if (pending !== '') emit(pending);
+      pending = '';
+    },
+  };
+}
+
+/**
+ * Run compose-cat with the same arguments in every project directory, each as its own process
+ * with the project directory as the cwd, so config, dotenv files, hooks and the compose binary are
+ * resolved per project. A project starts once every project it depends on succeeded; it is skipped
+ * when one of them failed or was skipped. Up to `parallel` projects run at a time, in declaration
+ * order otherwise.
+ */
+export async function runEach(options: EachOptions = {}): Promise<EachResult> {
+  const cwd = path.resolve(options.cwd ?? process.cwd());
+  const env = options.env ?? process.env;
+  let entries = options.projects;
+  let baseDir = cwd;
+  if (!entries) {
+    const loaded = loadConfig(cwd);
+    if (loaded.errors.length > 0) return { exitCode: 1, projects: [], errors: loaded.errors };
+    entries = loaded.config.projects ?? [];
+    if (loaded.file) baseDir = path.dirname(loaded.file);
+  }
+  const { projects, errors } = resolveProjects(entries, baseDir);
+  if (errors.length === 0 && projects.length === 0) errors.push('no projects to run');
+  if (errors.length > 0) return { exitCode: 1, projects: [], errors };
+
+  const { bin = DEFAULT_EACH_BIN, args = [], interrupts } = options;
+  const parallel = Math.max(1, options.parallel ?? 1);
+  const log = options.logger ?? silentLogger;
+  const width = Math.max(...projects.map((p) => p.name.length));
+  const onLine =
+    options.onLine ??
+    ((name: string, line: string, stream: OutputStream) =>
+      process[stream].write(`${name.padEnd(width)} | ${line}\n`));
+
+  const results = new Map<string, ProjectResult>();
+  const running = new Map<string, Promise<void>>();
+  const pending = [...projects];
+
+  const start = async (project: Project) => {
+    const started = Date.now();
+    const splitters = {
+      stdout: lineSplitter((line) => onLine(project.name, line, 'stdout')),
+      stderr: lineSplitter((line) => onLine(project.name, line, 'stderr')),
+    };
+    log.info('starting project', { project: project.name, dir: project.dir });
+    const { code } = await spawnCommand(
+      { bin, args },
+      {
+        cwd: project.dir,
+        env,
+        interrupts,
+        output: (stream, chunk) => splitters[stream].write(chunk),
+        logger: log,
+      },
+    );
+    splitters.stdout.end();
+    splitters.stderr.end();
+    results.set(project.name, {
+      name: project.name,
+      dir: project.dir,
+      status: code === 0 ? 'ok' : 'failed',
+      exitCode: code,
+      durationMs: Date.now() - started,
+    });
+  };
+
+  const skip = (project: Project, note: string) => {
+    pending.splice(pending.indexOf(project), 1);
+    results.set(project.name, {
+      name: project.name,
+      dir: project.dir,
+      status: 'skipped',
+      durationMs: 0,
+      note,
+    });
+  };
+
+  while (pending.length > 0 || running.size > 0) {
+    // Repeat until nothing changes: a skipped project skips its dependents as well.
+    for (let changed = true; changed; ) {
+      changed = false;
+      for (const project of [...pending]) {
+        const failedDep = project.dependsOn.find(
+          (dep) => results.has(dep) && results.get(dep)?.status !== 'ok',
+        );
+        if (!interrupts?.signal && !failedDep) continue;
+        skip(project, failedDep ? `${failedDep} did not succeed` : 'interrupted');
+        changed = true;
+      }
+    }
+    while (running.size < parallel) {
+      const next = pending.find((p) => p.dependsOn.every((d) => results.get(d)?.status === 'ok'));
+      if (!next) break;
+      pending.splice(pending.indexOf(next), 1);
+      running.set(
+        next.name,
+        start(next).finally(() => running.delete(next.name)),
+      );
+    }
+    if (running.size === 0) break;
+    await Promise.race(running.values());
+  }
+
+  const ordered = projects.flatMap((p) => results.get(p.name) ?? []);
+  const firstFailure = ordered.find((r) => r.status === 'failed');
+  return { exitCode: firstFailure?.exitCode ?? 0, projects: ordered, errors: [] };
+}
+
+function formatStatus(result: ProjectResult): string {
+  const details = [
+    result.status === 'failed' ? `exit ${result.exitCode}` : undefined,
+    result.note,
+  ].filter(Boolean);
+  return details.length > 0 ? `${result.status} (${details.join(', ')})` : result.status;
+}
+
+/**
+ * Render the per-project summary of a `runEach` result: name, status with the exit code, and
+ * duration.
+ */
+export function formatEachSummary(results: ProjectResult[]): string[] {
+  const rows = results.map((r) => [
+    r.name,
+    formatStatus(r),
+    r.status === 'skipped' ? '-' : formatDuration(r.durationMs),
+  ]);
+  const header = ['PROJECT', 'STATUS', 'DURATION'];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  return [header, ...rows].map((row) =>
+    row
+      .map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i])))
+      .join('  ')
+      .trimEnd(),
+  );
+}
@@ -0,0 +1,143 @@
+import { randomBytes } from 'node:crypto';
+import { mkdirSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { parse as parseDotenv } from 'dotenv';
+import { captureCommand } from './exec.js';
+import { currentPlatform, KNOWN_PLATFORMS, matchPlatformAndBinary } from './hooks.js';
+import { Logger } from './logger.js';
+
+type StringMap = Record<string, string>;
+
+// Only these extensions make a file a provider, so `.env.prod` is never taken for a provider of
+// `.env` with the extension `prod`.
+export const ENV_PROVIDER_EXTENSIONS = [
+  'sh',
+  'bash',
+  'zsh',
+  'ps1',
+  'cmd',
+  'bat',
+  'js',
+  'mjs',
+  'cjs',
+  'ts',
+  'py',
+  'rb',
+  'pl',
+];
+
+// Providers run while the environment is resolved, before anything else; they should be quick.
+export const ENV_PROVIDER_TIMEOUT_MS = 30_000;
+
+/**
+ * An executable next to a dotenv file whose stdout is parsed as dotenv and merged right after that
+ * file, e.g. `.env.dev.sh`, `.env.dev.linux.sh` or `.env.dev.+node.js` for `.env.dev`.
+ */
+export type EnvProvider = {
+  file: string; // absolute path
+  platform?: string;
+  binary?: string;
+};
+
+/**
+ * Providers of a dotenv file that apply to the current platform, sorted by file name. They are
+ * named `<dotenv file>[.<PLATFORM>+<BINARY>].<EXT>` like hooks; the dotenv file itself need not
+ * exist.
+ */
+export function findEnvProviders(dotenvFile: string): EnvProvider[] {
+  const dir = path.dirname(dotenvFile);
+  const base = `${path.basename(dotenvFile)}.`;
+  let names: string[];
+  try {
+    names = readdirSync(dir);
+  } catch {
+    return [];
+  }
+  const platforms = currentPlatform();
+  const providers: EnvProvider[] = [];
+  for (const name of names.filter((n) => n.startsWith(base)).sort()) {
+    const parts = name.slice(base.length).split('.');
+    const ext = parts[parts.length - 1];
+    if (parts.length > 2 || !ENV_PROVIDER_EXTENSIONS.includes(ext)) continue;
+    const platformAndBinary = parts.length === 2 ? parts[0] : undefined;
+    // `.env.local.sh` is a provider of `.env.local`, not of `.env` for a platform called "local".
+    if (platformAndBinary !== undefined) {
+      const [platform] = platformAndBinary.split('+');
+      if (platform ? !KNOWN_PLATFORMS.includes(platform) : !platformAndBinary.includes('+'))
+        continue;
+    }
+    const match = matchPlatformAndBinary(platformAndBinary, platforms);
+    if (!match) continue;
+    providers.push({
+      file: path.join(dir, name),
+      platform: platformAndBinary?.split('+')[0] || undefined,
+      binary: match.binary,
+    });
+  }
+  return providers;
+}
+
+/**
+ * Run a provider in `cwd` with `env` and parse what it prints. A provider that fails, times out
+ * or cannot be started is an error; its stderr goes to the terminal.
+ */
+export function runEnvProvider(
+  provider: EnvProvider,
+  options: { cwd: string; env: NodeJS.ProcessEnv; shell?: boolean; logger?: Logger },
+): { values: StringMap; error?: string } {
+  const command = { bin: provider.binary ? [provider.binary] : [], args: [provider.file] };
+  const result = captureCommand(command, { ...options, timeoutMs: ENV_PROVIDER_TIMEOUT_MS });
+  if (result.code !== 0) {
+    const reason = result.timedOut
+      ? `timed out after ${ENV_PROVIDER_TIMEOUT_MS / 1000}s`
+      : `failed with exit code ${result.code}`;
+    return { values: {}, error: `env provider ${provider.file} ${reason}` };
+  }
+  return { values: parseDotenv(result.stdout) };
+}
+
+/**
+ * Where the values of one provider are written so compose gets them via `--env-file` at the
+ * provider's position.
+ */
+export type GeneratedEnvFile = {
+  provider: string;
+  file: string;
+  values: StringMap;
+};
+
+/**
+ * Pick a private temp file for every provider's output. Nothing is written yet, so resolving a run
+ * that is never executed leaves nothing behind; see `writeGeneratedEnvFiles`.
+ */
+export function planGeneratedEnvFiles(generated: Record<string, StringMap>): GeneratedEnvFile[] {
+  const dir = path.join(tmpdir(), `cmpcat-env-${process.pid}-${randomBytes(6).toString('hex')}`);
+  return Object.entries(generated).map(([provider, values], i) => ({
+    provider,
+    file: path.join(dir, `${i + 1}-${path.basename(provider)}.env`),
+    values,
+  }));
+}
+
+// Single quotes keep compose from interpolating `$` in generated values such as tokens. Values
+// that cannot be single quoted are double quoted, where compose interpolates, so `$` becomes `$$`.
+function formatEnvLine(key: string, value: string): string {
+  if (!/['\n\r]/.test(value)) return `${key}='${value}'`;
+  return `${key}=${JSON.stringify(value).replace(/\$/g, '$$$$')}`;
+}
+
+/** Write the planned files into a directory only the current user can read. */
+export function writeGeneratedEnvFiles(files: GeneratedEnvFile[]): void {
+  if (files.length === 0) return;
+  mkdirSync(path.dirname(files[0].file), { mode: 0o700 });
+  for (const { file, values } of files) {
+    const lines = Object.entries(values).map(([k, v]) => `${formatEnvLine(k, v)}\n`);
+    writeFileSync(file, lines.join(''), { mode: 0o600, flag: 'wx' });
+  }
+}
+
+export function removeGeneratedEnvFiles(files: GeneratedEnvFile[]): void {
+  if (files.length === 0) return;
+  rmSync(path.dirname(files[0].file), { recursive: true, force: true });
+}
@@ -0,0 +1,143 @@
+import { isEncryptedEnvFile } from './secrets.js';
+
+type StringMap = Record<string, string>;
+
+// Where a value came from: a dotenv file path, the OS environment, or compose-cat itself.
+export const PROCESS_ENV_SOURCE = 'process.env';
+export const COMPOSE_CAT_SOURCE = 'compose-cat';
+
+// `raw` holds the value as written in the file when it differs after ${VAR} expansion.
+export type EnvSource = { source: string; value: string; raw?: string };
+
+// Every value each key was assigned, in merge order. The last entry is the one that won.
+export type EnvProvenance = Record<string, EnvSource[]>;
+
+export type EnvReportEntry = {
+  key: string;
+  value: string;
+  raw?: string;
+  source: string;
+  overrides: EnvSource[];
+};
+
+export type EnvReportFormat = 'dotenv' | 'json' | 'table';
+
+export const ENV_REPORT_FORMATS: EnvReportFormat[] = ['dotenv', 'json', 'table'];
+
+// Key names that look like they hold credentials.
+export const SECRET_KEY_PATTERN = /PASSWORD|PASSWD|TOKEN|SECRET|KEY|CREDENTIAL|PRIVATE/i;
+
+const MASK = '********';
+
+export function recordEnvSources(provenance: EnvProvenance, values: StringMap, source: string) {
+  for (const [key, value] of Object.entries(values)) {
+    (provenance[key] ??= []).push({ source, value });
+  }
+}
+
+// Translate a shell-style glob (`*`, `?`) into an anchored regular expression.
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split('')
+    .map((c) => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[\\^$.|+()[\]{}]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${pattern}$`);
+}
+
+// Values from encrypted dotenv files are always treated as secrets, whatever their key looks like.
+function maskValue(key: string, entry: EnvSource, mask: boolean): string {
+  const secret = SECRET_KEY_PATTERN.test(key) || isEncryptedEnvFile(entry.source);
+  return mask && entry.value !== '' && secret ? MASK : entry.value;
+}
+
+/**
+ * `env` as it may be logged: values of keys that look like credentials or are in `secretEnv` (the
+ * decrypted values) are masked, and so is any other key holding a decrypted value, e.g. one a hook
+ * re-exported under a new name.
+ */
+export function maskSecretEnv(env: StringMap, secretEnv: StringMap): StringMap {
+  const secretValues = Object.values(secretEnv).filter((value) => value !== '');
+  return Object.fromEntries(
+    Object.entries(env).map(([key, value]) => {
+      const secret =
+        SECRET_KEY_PATTERN.test(key) || key in secretEnv || secretValues.includes(value);
+      return [key, secret && value !== '' ? MASK : value];
+    }),
+  );
+}
+
+/**
+ * Pair every key of the merged env with the source that won and the values it replaced. Values
+ * that differ from the last recorded source were set by compose-cat after merging.
+ */
+export function buildEnvReport(
+  mergedEnv: StringMap,
+  provenance: EnvProvenance,
+  options: { keys?: string[]; mask?: boolean } = {},
+): EnvReportEntry[] {
+  const matchers = (options.keys ?? []).map(globToRegExp);
+  const mask = options.mask ?? true;
+
+  return Object.keys(mergedEnv)
+    .filter((key) => matchers.length === 0 || matchers.some((m) => m.test(key)))
+    .sort()
+    .map((key) => {
+      const value = mergedEnv[key];
+      let chain = provenance[key] ?? [];
+      const last = chain[chain.length - 1];
+      if (!last || last.value !== value) {
+        chain = [...chain, { source: COMPOSE_CAT_SOURCE, value }];
+      }
+      const winner = chain[chain.length - 1];
+      return {
+        key,
+        value: maskValue(key, winner, mask),
+        ...(winner.raw !== undefined && {
+          raw: maskValue(key, { ...winner, value: winner.raw }, mask),
+        }),
+        source: winner.source,
+        overrides: chain
+          .slice(0, -1)
+          .map((s) => ({ source: s.source, value: maskValue(key, s, mask) })),
+      };
+    });
+}
+
+function quoteDotenvValue(value: string): string {
+  if (/^[A-Za-z0-9_@%+=:,./-]*$/.test(value)) return value;
+  return JSON.stringify(value);
+}
+
+function formatTable(entries: EnvReportEntry[]): string {
+  const rows = [
+    ['KEY', 'VALUE', 'SOURCE', 'OVERRIDES'],
+    ...entries.map((e) => [
+      e.key,
+      e.value,
+      e.source,
+      e.overrides.map((o) => `${o.value} (${o.source})`).join(', '),
+    ]),
+  ];
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+  return rows
+    .map((r) =>
+      r
+        .map((cell, i) => cell.padEnd(widths[i]))
+        .join('  ')
+        .trimEnd(),
+    )
+    .join('\n');
+}
+
+export function formatEnvReport(entries: EnvReportEntry[], format: EnvReportFormat): string {
+  if (format === 'json') return JSON.stringify(entries, null, 2);
+  if (format === 'table') return formatTable(entries);
+
+  const lines: string[] = [];
+  for (const e of entries) {
+    const overrides = e.overrides.map((o) => o.source).join(', ');
+    lines.push(`# ${e.source}${overrides ? ` (overrides ${overrides})` : ''}`);
+    lines.push(`${e.key}=${quoteDotenvValue(e.value)}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,186 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { SECRET_KEY_PATTERN } from './env-report.js';
+
+type StringMap = Record<string, string>;
+
+export type EnvValueType = 'string' | 'int' | 'port' | 'bool' | 'url' | 'enum' | 'regex';
+
+export const ENV_VALUE_TYPES: EnvValueType[] = [
+  'string',
+  'int',
+  'port',
+  'bool',
+  'url',
+  'enum',
+  'regex',
+];
+
+export type EnvSchemaEntry = {
+  type?: EnvValueType;
+  required?: boolean;
+  default?: string;
+  description?: string;
+  // Allowed values for `enum`.
+  values?: string[];
+  // Pattern the whole value must match for `regex`.
+  pattern?: string;
+};
+
+export type EnvSchema = Record<string, EnvSchemaEntry>;
+
+const BOOL_VALUES = ['true', 'false', '1', '0', 'yes', 'no', 'on', 'off'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateEntry(raw: unknown, where: string, errors: string[]): EnvSchemaEntry | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push(`${where}: must be an object`);
+    return undefined;
+  }
+
+  const entry: EnvSchemaEntry = {};
+  for (const [key, value] of Object.entries(raw)) {
+    switch (key) {
+      case 'type':
+        if (ENV_VALUE_TYPES.includes(value as EnvValueType)) entry.type = value as EnvValueType;
+        else errors.push(`${where}: "type" must be one of ${ENV_VALUE_TYPES.join(', ')}`);
+        break;
+      case 'required':
+        if (typeof value === 'boolean') entry.required = value;
+        else errors.push(`${where}: "required" must be a boolean`);
+        break;
+      case 'default':
+      case 'description':
+      case 'pattern':
+        if (typeof value === 'string') entry[key] = value;
+        else errors.push(`${where}: "${key}" must be a string`);
+        break;
+      case 'values':
+        if (Array.isArray(value) && value.every((v) => typeof v === 'string')) entry.values = value;
+        else errors.push(`${where}: "values" must be an array of strings`);
+        break;
+      default:
+        errors.push(`${where}: unknown key "${key}"`);
+    }
+  }
+
+  if (entry.type === 'enum' && !entry.values) {
+    errors.push(`${where}: "enum" requires "values"`);
+  }
+  if (entry.type === 'regex') {
+    if (entry.pattern === undefined) {
+      errors.push(`${where}: "regex" requires "pattern"`);
+    } else {
+      try {
+        new RegExp(entry.pattern);
+      } catch {
+        errors.push(`${where}: "pattern" is not a valid regular expression`);
+      }
+    }
+  }
+  return entry;
+}
+
+/**
+ * Check a parsed schema definition (from the schema file or the `envSchema` config section),
+ * collecting every problem like the config validation does.
+ */
+export function validateEnvSchema(
+  raw: unknown,
+  source: string,
+): { schema: EnvSchema; errors: string[] } {
+  const errors: string[] = [];
+  if (!isPlainObject(raw)) {
+    return { schema: {}, errors: [`${source}: env schema must be an object keyed by variable`] };
+  }
+
+  const schema: EnvSchema = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const entry = validateEntry(value, `${source}: ${key}`, errors);
+    if (entry) schema[key] = entry;
+  }
+  return { schema, errors };
+}
+
+export function loadEnvSchemaFile(file: string): { schema: EnvSchema; errors: string[] } {
+  if (!existsSync(file)) return { schema: {}, errors: [] };
+  try {
+    return validateEnvSchema(JSON.parse(readFileSync(file, 'utf8')), file);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    return { schema: {}, errors: [`${file}: failed to parse env schema: ${reason}`] };
+  }
+}
+
+// Return a description of what is wrong with `value`, or undefined when it is acceptable.
+function checkType(value: string, entry: EnvSchemaEntry): string | undefined {
+  switch (entry.type ?? 'string') {
+    case 'int':
+      return /^-?\d+$/.test(value) ? undefined : 'expected an integer';
+    case 'port': {
+      const port = Number(value);
+      return /^\d+$/.test(value) && port >= 1 && port <= 65535
+        ? undefined
+        : 'expected a port (1-65535)';
+    }
+    case 'bool':
+      return BOOL_VALUES.includes(value.toLowerCase())
+        ? undefined
+        : `expected a boolean (${BOOL_VALUES.join(', ')})`;
+    case 'url':
+      try {
+        new URL(value);
+        return undefined;
+      } catch {
+        return 'expected a URL';
+      }
+    case 'enum':
+      return entry.values?.includes(value)
+        ? undefined
+        : `expected one of ${entry.values?.join(', ')}`;
+    case 'regex':
+      return new RegExp(`^(?:${entry.pattern})$`).test(value)
+        ? undefined
+        : `expected to match /${entry.pattern}/`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Fill in defaults for missing or empty keys and validate every key the schema declares. Returns
+ * the defaults that were applied (the caller merges them) and one message per violation. Messages
+ * leave out the values of `secretKeys` (decrypted values) and of secret-looking keys.
+ */
+export function applyEnvSchema(
+  env: StringMap,
+  schema: EnvSchema,
+  secretKeys: string[] = [],
+): { defaults: StringMap; violations: string[] } {
+  const defaults: StringMap = {};
+  const violations: string[] = [];
+
+  for (const [key, entry] of Object.entries(schema)) {
+    let value = env[key];
+    if ((value === undefined || value === '') && entry.default !== undefined) {
+      value = defaults[key] = entry.default;
+    }
+
+    const hint = entry.description ? ` (${entry.description})` : '';
+    if (value === undefined || value === '') {
+      if (entry.required) violations.push(`${key}: required but not set${hint}`);
+      continue;
+    }
+
+    const problem = checkType(value, entry);
+    if (problem) {
+      const secret = secretKeys.includes(key) || SECRET_KEY_PATTERN.test(key);
+      const got = secret ? '' : `, got "${value}"`;
+      violations.push(`${key}: ${problem}${got}${hint}`);
+    }
+  }
+
+  return { defaults, violations };
+}
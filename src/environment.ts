@@ -0,0 +1,482 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parse as parseDotenv, populate } from 'dotenv';
+import { cascadeDirs, ConfigOptions, loadConfig, resolveConfigOptions } from './config.js';
+import {
+  ENV_PROVIDER_EXTENSIONS,
+  EnvProvider,
+  findEnvProviders,
+  runEnvProvider,
+} from './env-providers.js';
+import { EnvProvenance, PROCESS_ENV_SOURCE, recordEnvSources } from './env-report.js';
+import { applyEnvSchema, EnvSchema, loadEnvSchemaFile } from './env-schema.js';
+import { expandEnv } from './expand.js';
+import { KNOWN_PLATFORMS } from './hooks.js';
+import { Logger, silentLogger } from './logger.js';
+import {
+  decryptText,
+  ENCRYPTED_SUFFIX,
+  isEncryptedEnvFile,
+  loadSecretsKey,
+  SecretsKey,
+  secretsKeyFile,
+} from './secrets.js';
+import { TaskDefinition } from './tasks.js';
+
+type StringMap = Record<string, string>;
+
+export const DEFAULT_PREFIX = 'CMPCAT_';
+export const DEFAULT_DOTENV_PREFIX = '.env';
+
+/**
+ * Options accepted by every API entry point. The keys mirror the config file (and the CLI flags);
+ * values given here win over the config file.
+ */
+export type ComposeCatOptions = ConfigOptions & {
+  // Where dotenv, compose and hook files are looked up (default: process.cwd()).
+  cwd?: string;
+  // Environment to start from (default: process.env). It is copied, never modified.
+  env?: NodeJS.ProcessEnv;
+  // Where progress is logged (default: nowhere).
+  logger?: Logger;
+  // Do not run env providers; they are only listed in `skippedEnvProviders`. For dry runs, the
+  // doctor and completion, which must not spawn anything.
+  skipEnvProviders?: boolean;
+};
+
+export type ResolvedOptions = {
+  cwd: string;
+  // Directories dotenv files and hooks are looked up in, outermost first: just the cwd, or with
+  // `cascade` every directory from the project root down to the cwd.
+  dirs: string[];
+  env: NodeJS.ProcessEnv;
+  configFile?: string;
+  // Config file options with the overrides of the selected profiles applied.
+  config: ConfigOptions;
+  envSchema: EnvSchema;
+  // Tasks from the config file; the built-in ones are not included.
+  tasks: Record<string, TaskDefinition>;
+  prefix: string;
+  dotenvPrefix: string;
+  profiles: string[];
+  errors: string[];
+};
+
+export type ResolvedEnvironment = ResolvedOptions & {
+  // The selected profiles with the ones they extend (see `<prefix>EXTENDS`), extended ones first.
+  profiles: string[];
+  // Profiles passed to compose as --profile flags and used for compose file layering: `profiles`,
+  // or only the selected ones with `extendsEnvOnly`.
+  composeProfiles: string[];
+  // Dotenv files and env providers in merge order; later files override earlier ones.
+  envFiles: string[];
+  // What each env provider in `envFiles` printed, keyed by provider file.
+  generatedEnv: Record<string, StringMap>;
+  // Env providers in `envFiles` that would have run, with `skipEnvProviders`.
+  skippedEnvProviders: string[];
+  mergedEnv: StringMap;
+  provenance: EnvProvenance;
+  // Keys whose winning value came from an encrypted dotenv file.
+  secretKeys: string[];
+  schemaViolations: string[];
+};
+
+export function normalizeProfiles(values?: string[] | string): string[] {
+  if (!values) return [];
+  const arr = Array.isArray(values) ? values : [values];
+  const out: string[] = [];
+  for (const v of arr) {
+    if (!v) continue;
+    for (const part of v.split(',')) {
+      const s = part.trim();
+      if (s) out.push(s);
+    }
+  }
+  return out;
+}
+
+/**
+ * Load the config file, pick the profiles and resolve both prefixes. Precedence for the prefixes:
+ * option > env (CMPCAT_ARG_PREFIX, CMPCAT_ARG_DOTENV_PREFIX) > config file > built-in default.
+ */
+export function resolveOptions(options: ComposeCatOptions = {}): ResolvedOptions {
+  const cwd = path.resolve(options.cwd ?? process.cwd());
+  const env = options.env ?? process.env;
+  const loadedConfig = loadConfig(cwd);
+
+  // Given profiles replace the configured ones; the selection also picks the per-profile overrides.
+  const givenProfiles = normalizeProfiles(options.profile);
+  const profiles = givenProfiles.length > 0 ? givenProfiles : (loadedConfig.config.profile ?? []);
+  const config = resolveConfigOptions(loadedConfig.config, profiles);
+  const dirs = (options.cascade ?? config.cascade) ? cascadeDirs(cwd) : [cwd];
+
+  return {
+    cwd,
+    dirs,
+    env,
+    configFile: loadedConfig.file,
+    config,
+    envSchema: loadedConfig.config.envSchema ?? {},
+    tasks: loadedConfig.config.tasks ?? {},
+    prefix: options.cmpPrefix || env.CMPCAT_ARG_PREFIX || config.cmpPrefix || DEFAULT_PREFIX,
+    dotenvPrefix:
+      options.cmpDotenvPrefix ||
+      env.CMPCAT_ARG_DOTENV_PREFIX ||
+      config.cmpDotenvPrefix ||
+      DEFAULT_DOTENV_PREFIX,
+    profiles,
+    errors: loadedConfig.errors,
+  };
+}
+
+// Load a dotenv file into the provided `base` object. Only files that exist are merged, so a file
+// that cannot be read (a directory, missing permissions) throws instead of being skipped. When
+// `provenance` is given, every parsed key is recorded against the file so reports can show which
+// file won.
+function mergeEnv(log: Logger, base: StringMap, file: string, provenance?: EnvProvenance) {
+  let parsed: StringMap;
+  try {
+    parsed = parseDotenv(readFileSync(file, 'utf8'));
+  } catch (err) {
+    throw new Error(`failed to read ${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  populate(base, parsed, { override: true });
+  if (provenance) recordEnvSources(provenance, parsed, file);
+  log.debug('merged dotenv file', { file, keys: Object.keys(parsed) });
+}
+
+// Decrypt an encrypted dotenv file in memory and merge it like mergeEnv does.
+function mergeEncryptedEnv(base: StringMap, file: string, key: Buffer, provenance: EnvProvenance) {
+  let parsed: StringMap;
+  try {
+    parsed = parseDotenv(decryptText(readFileSync(file, 'utf8'), key));
+  } catch (err) {
+    throw new Error(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  populate(base, parsed, { override: true });
+  recordEnvSources(provenance, parsed, file);
+}
+
+/**
+ * Every dotenv file that is merged when it exists, in merge order: the base files, then the files of
+ * each profile. Each file may have an encrypted `.enc` variant that is merged right after it. With
+ * several lookup directories, every layer lists the files of outer directories first.
+ */
+export function dotenvFileCandidates(
+  resolved: ResolvedOptions,
+  disableProfileBasedDotenv?: boolean,
+): { base: string[]; profile: string[] } {
+  const { dirs, dotenvPrefix, profiles } = resolved;
+  const layer = (names: string[]) =>
+    dirs.flatMap((dir) =>
+      names.flatMap((name) => {
+        const file = path.resolve(dir, name);
+        return [file, `${file}${ENCRYPTED_SUFFIX}`];
+      }),
+    );
+  return {
+    base: layer([dotenvPrefix, `${dotenvPrefix}.local`]),
+    profile: disableProfileBasedDotenv
+      ? []
+      : profiles.flatMap((p) => layer([`${dotenvPrefix}.${p}`, `${dotenvPrefix}.${p}.local`])),
+  };
+}
+
+// Files next to the dotenv files whose second part is not a profile name.
+const NON_PROFILE_PARTS = ['local', 'key', 'schema', 'enc'];
+
+/**
+ * Profile names the existing dotenv files provide, e.g. `dev` for `.env.dev` or
+ * `.env.dev.local.enc`, in every lookup directory. Used for shell completion.
+ */
+export function listDotenvProfiles(resolved: ResolvedOptions): string[] {
+  const { dirs, dotenvPrefix } = resolved;
+  const profiles = new Set<string>();
+  for (const dir of dirs) {
+    let names: string[];
+    try {
+      names = readdirSync(dir);
+    } catch {
+      continue;
+    }
+    for (const name of names.filter((n) => n.startsWith(`${dotenvPrefix}.`))) {
+      const [profile] = name.slice(dotenvPrefix.length + 1).split('.');
+      // `.env.sh`, `.env.linux.sh` and `.env.+node.js` are env providers of `.env`.
+      const providerPart =
+        ENV_PROVIDER_EXTENSIONS.includes(profile) ||
+        KNOWN_PLATFORMS.includes(profile) ||
+        profile.includes('+');
+      if (profile && !providerPart && !NON_PROFILE_PARTS.includes(profile)) profiles.add(profile);
+    }
+  }
+  return [...profiles].sort();
+}
+
+// A dotenv file to merge, or an env provider to run.
+type MergeSource = { file: string; provider?: EnvProvider };
+
+/**
+ * Add the profiles the given ones extend. A profile declares them as `<prefix>EXTENDS=a,b` in its
+ * own dotenv files (`readProfileEnv`), and each one is placed after everything it extends,
+ * depth-first in declaration order. A profile reached twice keeps its first position; cycles are
+ * reported in `errors`.
+ */
+function expandProfiles(
+  log: Logger,
+  given: string[],
+  prefix: string,
+  errors: string[],
+  readProfileEnv: (profile: string) => StringMap,
+): string[] {
+  const key = `${prefix}EXTENDS`;
+  const profiles: string[] = [];
+  const visit = (profile: string, chain: string[]) => {
+    if (chain.includes(profile)) {
+      errors.push(`profile "${profile}" extends itself (${[...chain, profile].join(' -> ')})`);
+      return;
+    }
+    if (profiles.includes(profile)) return;
+    const parents = normalizeProfiles(readProfileEnv(profile)[key]);
+    if (parents.length > 0) log.info('profile extends', { profile, extends: parents });
+    for (const parent of parents) visit(parent, [...chain, profile]);
+    profiles.push(profile);
+  };
+  for (const profile of given) visit(profile, []);
+  return profiles;
+}
+
+/**
+ * Detect which dotenv files are applicable and merge them over the base environment into a single
+ * env object: `<dotenvPrefix>` and `.local` first, then the files of each profile, including the
+ * profiles they extend.
+ */
+function mergeDotenvFiles(
+  resolved: ResolvedOptions,
+  options: {
+    disableProfileBasedDotenv?: boolean;
+    disableDotenvExpansion?: boolean;
+    shell?: boolean;
+    skipEnvProviders?: boolean;
+    log: Logger;
+  },
+): {
+  envFiles: string[];
+  generatedEnv: Record<string, StringMap>;
+  skippedEnvProviders: string[];
+  mergedEnv: StringMap;
+  provenance: EnvProvenance;
+  profiles: string[];
+  errors: string[];
+} {
+  const { cwd, env, prefix, dotenvPrefix } = resolved;
+  const { log } = options;
+  const errors: string[] = [];
+  const candidates = dotenvFileCandidates(resolved, options.disableProfileBasedDotenv);
+
+  // The key is only needed (and only looked up) when an encrypted file is present.
+  let secretsKey: SecretsKey | undefined;
+  const mergeFile = (base: StringMap, file: string, sources = provenance) => {
+    try {
+      if (!isEncryptedEnvFile(file)) return mergeEnv(log, base, file, sources);
+      secretsKey ??= loadSecretsKey(cwd, prefix, dotenvPrefix, env);
+      if (!secretsKey) {
+        const keyFile = secretsKeyFile(cwd, prefix, dotenvPrefix, env);
+        throw new Error(
+          `${file}: no secrets key found (set ${prefix}SECRETS_KEY or create ${keyFile})`,
+        );
+      }
+      mergeEncryptedEnv(base, file, secretsKey.key, sources);
+    } catch (err) {
+      errors.push(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Existing candidates in merge order. Candidates come in pairs, `<file>` and `<file>.enc`; the
+  // providers of `<file>` follow the pair.
+  const sources = (files: string[]): MergeSource[] =>
+    files.flatMap((file) => [
+      ...(existsSync(file) ? [{ file }] : []),
+      ...(isEncryptedEnvFile(file)
+        ? findEnvProviders(file.slice(0, -ENCRYPTED_SUFFIX.length)).map((provider) => ({
+            file: provider.file,
+            provider,
+          }))
+        : []),
+    ]);
+
+  // Providers see the env merged so far plus the profile variables.
+  const generatedEnv: Record<string, StringMap> = {};
+  const skippedEnvProviders: string[] = [];
+  const mergeSource = (source: MergeSource, layer: string, profiles: string[]) => {
+    if (!source.provider) {
+      log.info(`merging ${layer} dotenv file`, { file: source.file });
+      return mergeFile(mergedEnv, source.file);
+    }
+    if (options.skipEnvProviders) {
+      log.info(`skipping ${layer} env provider`, { file: source.file });
+      return skippedEnvProviders.push(source.file);
+    }
+    log.info(`running ${layer} env provider`, { file: source.file });
+    const providerEnv = { ...mergedEnv };
+    applyProfileEnvVariables(providerEnv, profiles, prefix);
+    const { values, error } = runEnvProvider(source.provider, {
+      cwd,
+      env: providerEnv,
+      shell: options.shell,
+      logger: log,
+    });
+    if (error) return errors.push(error);
+    generatedEnv[source.file] = values;
+    populate(mergedEnv, values, { override: true });
+    recordEnvSources(provenance, values, source.file);
+  };
+
+  const mergedEnv = JSON.parse(JSON.stringify(env)) as StringMap;
+  const provenance: EnvProvenance = {};
+  recordEnvSources(provenance, mergedEnv, PROCESS_ENV_SOURCE);
+  const baseSources = sources(candidates.base);
+  for (const source of baseSources) mergeSource(source, 'base', resolved.profiles);
+
+  // Profiles only extend others from their files; providers do not take part.
+  const profiles = expandProfiles(log, resolved.profiles, resolved.prefix, errors, (profile) => {
+    const files = dotenvFileCandidates(
+      { ...resolved, profiles: [profile] },
+      options.disableProfileBasedDotenv,
+    ).profile.filter((f) => existsSync(f));
+    const declared: StringMap = {};
+    for (const f of files) mergeFile(declared, f, {});
+    return declared;
+  });
+  const profileSources = sources(
+    dotenvFileCandidates({ ...resolved, profiles }, options.disableProfileBasedDotenv).profile,
+  );
+
+  // Merge env in order; later files override earlier ones.
+  for (const source of profileSources) mergeSource(source, 'profile', profiles);
+
+  // Expand references only once every layer is merged so they see the winning values. OS env values
+  // are never expanded, only values that came from a dotenv file.
+  if (errors.length === 0 && !options.disableDotenvExpansion) {
+    const fileKeys = Object.keys(provenance).filter(
+      (key) => provenance[key][provenance[key].length - 1].source !== PROCESS_ENV_SOURCE,
+    );
+    const expanded = expandEnv(mergedEnv, fileKeys);
+    errors.push(...expanded.errors.map((err) => `failed to expand ${err}`));
+    for (const [key, value] of Object.entries(expanded.values)) {
+      if (value === mergedEnv[key]) continue;
+      const winner = provenance[key][provenance[key].length - 1];
+      winner.raw = winner.value;
+      winner.value = value;
+      mergedEnv[key] = value;
+    }
+  }
+
+  return {
+    envFiles: [...baseSources, ...profileSources].map((source) => source.file),
+    generatedEnv,
+    skippedEnvProviders,
+    mergedEnv,
+    provenance,
+    profiles,
+    // Reading the declarations and merging a broken file report the same error.
+    errors: [...new Set(errors)],
+  };
+}
+
+/**
+ * Set `<prefix>PROFILES` and `<prefix>PROFILE_<N>` on `target`, dropping stale `PROFILE_<N>` keys
+ * inherited from an outer run.
+ */
+export function applyProfileEnvVariables(
+  target: Record<string, string | undefined>,
+  profiles: string[],
+  prefix: string,
+) {
+  const profileKeyPrefix = `${prefix}PROFILE_`;
+  const profilesKey = `${prefix}PROFILES`;
+
+  for (const key of Object.keys(target)) {
+    if (key.startsWith(profileKeyPrefix)) {
+      delete target[key];
+    }
+  }
+
+  if (profiles.length === 0) {
+    delete target[profilesKey];
+    return;
+  }
+
+  target[profilesKey] = profiles.join(',');
+  profiles.forEach((profile, index) => {
+    target[`${profileKeyPrefix}${index + 1}`] = profile;
+  });
+}
+
+/**
+ * Resolve config defaults, prefixes, dotenv layering, schema defaults and profile variables without
+ * touching process.env. Errors are collected; when there are any the environment is left empty
+ * (`envFiles` still lists the dotenv files when merging them failed).
+ * Schema violations are reported separately so callers can decide whether they are fatal.
+ */
+export function resolveEnvironment(options: ComposeCatOptions = {}): ResolvedEnvironment {
+  const resolved = resolveOptions(options);
+  const log = options.logger ?? silentLogger;
+  const failed = (errors: string[], envFiles: string[] = []): ResolvedEnvironment => ({
+    ...resolved,
+    composeProfiles: resolved.profiles,
+    envFiles,
+    generatedEnv: {},
+    skippedEnvProviders: [],
+    mergedEnv: {},
+    provenance: {},
+    secretKeys: [],
+    schemaViolations: [],
+    errors,
+  });
+  if (resolved.errors.length > 0) return failed(resolved.errors);
+  if (resolved.dirs.length > 1) {
+    log.info('cascading lookup', { root: resolved.dirs[0], dirs: resolved.dirs });
+  }
+
+  const merged = mergeDotenvFiles(resolved, {
+    disableProfileBasedDotenv:
+      options.disableProfileBasedDotenv ?? resolved.config.disableProfileBasedDotenv,
+    disableDotenvExpansion:
+      options.disableDotenvExpansion ?? resolved.config.disableDotenvExpansion,
+    shell: options.shell ?? resolved.config.shell,
+    skipEnvProviders: options.skipEnvProviders,
+    log,
+  });
+  const { envFiles, generatedEnv, skippedEnvProviders, mergedEnv, provenance, profiles, errors } =
+    merged;
+  if (errors.length > 0) return failed(errors, envFiles);
+
+  // The schema file next to the dotenv files extends (and per key replaces) the config section.
+  const schemaFile = path.resolve(resolved.cwd, `${resolved.dotenvPrefix}.schema.json`);
+  const loadedSchema = loadEnvSchemaFile(schemaFile);
+  if (loadedSchema.errors.length > 0) return failed(loadedSchema.errors);
+  const envSchema: EnvSchema = { ...resolved.envSchema, ...loadedSchema.schema };
+  const secretKeys = Object.keys(provenance).filter((key) =>
+    isEncryptedEnvFile(provenance[key][provenance[key].length - 1].source),
+  );
+  const { defaults, violations } = applyEnvSchema(mergedEnv, envSchema, secretKeys);
+  Object.assign(mergedEnv, defaults);
+  recordEnvSources(provenance, defaults, 'env schema default');
+
+  applyProfileEnvVariables(mergedEnv, profiles, resolved.prefix);
+
+  const extendsEnvOnly = options.extendsEnvOnly ?? resolved.config.extendsEnvOnly;
+  return {
+    ...resolved,
+    profiles,
+    composeProfiles: extendsEnvOnly ? resolved.profiles : profiles,
+    envSchema,
+    envFiles,
+    generatedEnv,
+    skippedEnvProviders,
+    mergedEnv,
+    provenance,
+    secretKeys,
+    schemaViolations: violations,
+  };
+}
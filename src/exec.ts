@@ -0,0 +1,279 @@
+import { ChildProcess, spawn, spawnSync, SpawnSyncReturns, StdioOptions } from 'node:child_process';
+import { constants } from 'node:os';
+import { isatty } from 'node:tty';
+import { Logger, silentLogger } from './logger.js';
+
+// Exit code reported for commands stopped by their timeout, as coreutils' `timeout` does.
+export const TIMEOUT_EXIT_CODE = 124;
+// How long a command gets to exit after a forwarded signal or its timeout before it is killed.
+export const DEFAULT_GRACE_PERIOD_MS = 10_000;
+
+// Signals compose-cat forwards to the running command instead of dying on them.
+export type InterruptSignal = 'SIGINT' | 'SIGTERM' | 'SIGHUP';
+export const INTERRUPT_SIGNALS: InterruptSignal[] = ['SIGINT', 'SIGTERM', 'SIGHUP'];
+
+/**
+ * Interruptions of one run. The CLI feeds it from process signals; API users call `interrupt()`
+ * themselves. The first interruption is forwarded to the running command, any later one kills it.
+ */
+export type Interrupts = {
+  // The first signal received, if any.
+  signal?: InterruptSignal;
+  count: number;
+  listeners: Set<(signal: InterruptSignal, count: number) => void>;
+};
+
+/**
+ * A command to spawn: `bin` is the program plus any fixed leading arguments (e.g. `['docker',
+ * 'compose']`) and `args` the arguments. Both are passed to the program as they are, without a
+ * shell. In shell mode `bin` is inserted into the shell command line verbatim and every arg is
+ * quoted.
+ */
+export type CommandLine = {
+  bin: string[];
+  args: string[];
+};
+
+export type SpawnOptions = {
+  cwd?: string;
+  env: NodeJS.ProcessEnv;
+  // Run through the platform shell (sh -c or cmd.exe) instead of spawning the program directly.
+  shell?: boolean;
+  timeoutMs?: number;
+  interrupts?: Interrupts;
+  gracePeriodMs?: number;
+  // Receives stdout and stderr instead of the terminal; stdin is still inherited.
+  output?: (stream: 'stdout' | 'stderr', chunk: Buffer) => void;
+  // Where the command and its failures are logged (default: nowhere).
+  logger?: Logger;
+};
+
+export type SpawnResult = {
+  code: number;
+  timedOut: boolean;
+  // Whether an interruption arrived while the command ran.
+  interrupted: boolean;
+  // The signal that ended the command, when it did not exit by itself.
+  signal?: NodeJS.Signals;
+};
+
+export function createInterrupts(): Interrupts {
+  return { count: 0, listeners: new Set() };
+}
+
+export function interrupt(interrupts: Interrupts, signal: InterruptSignal) {
+  interrupts.signal ??= signal;
+  interrupts.count += 1;
+  for (const listener of interrupts.listeners) {
+    listener(signal, interrupts.count);
+  }
+}
+
+// Exit code of a process ended by `signal`, as shells report it (130 for SIGINT).
+export function signalExitCode(signal: NodeJS.Signals): number {
+  return 128 + (constants.signals[signal] ?? 0);
+}
+
+// Accepts `500ms`, `30s`, `2m` or a plain number of seconds; undefined for anything else.
+export function parseDuration(value: string | number): number | undefined {
+  if (typeof value === 'number') return value > 0 ? value * 1000 : undefined;
+  const m = value.trim().match(/^(\d+(?:\.\d+)?)(ms|s|m)?$/);
+  if (!m) return undefined;
+  const amount = Number(m[1]);
+  const factor = m[2] === 'ms' ? 1 : m[2] === 'm' ? 60_000 : 1000;
+  return amount > 0 ? amount * factor : undefined;
+}
+
+export function shellQuote(s: string): string {
+  if (s === '') return "''";
+  if (/^[A-Za-z0-9_@%+=:,./-]+$/.test(s)) return s; // no quoting needed
+  return `'${s.replaceAll("'", "'\\''")}'`;
+}
+
+// cmd.exe quoting for shell mode on Windows. `%VAR%` is still expanded inside quotes there.
+function cmdQuote(s: string): string {
+  if (/^[A-Za-z0-9_@+=:,./\\-]+$/.test(s)) return s;
+  return `"${s.replaceAll('"', '""')}"`;
+}
+
+/**
+ * Split a command written as text, e.g. a `--cmp-bin` value, into argv the way a POSIX shell
+ * would: whitespace separates words, single quotes are literal, and double quotes and backslashes
+ * escape. Nothing is expanded. Returns undefined for an unterminated quote.
+ */
+export function splitCommand(text: string): string[] | undefined {
+  const words: string[] = [];
+  let word: string | undefined;
+  let quote: "'" | '"' | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote === "'") {
+      if (c === "'") quote = undefined;
+      else word += c;
+    } else if (quote === '"') {
+      if (c === '"') quote = undefined;
+      else if (c === '\\' && i + 1 < text.length && '"\\$`'.includes(text[i + 1]))
+        word += text[++i];
+      else word += c;
+    } else if (/\s/.test(c)) {
+      if (word !== undefined) words.push(word);
+      word = undefined;
+    } else if (c === "'" || c === '"') {
+      quote = c;
+      word ??= '';
+    } else if (c === '\\' && i + 1 < text.length) {
+      word = (word ?? '') + text[++i];
+    } else {
+      word = (word ?? '') + c;
+    }
+  }
+  if (quote) return undefined;
+  if (word !== undefined) words.push(word);
+  return words;
+}
+
+// The command as it would be typed into a shell, for logs and plans. In shell mode this is also
+// exactly the command line that runs.
+export function formatCommand(command: CommandLine, shell = false): string {
+  const quote = process.platform === 'win32' ? cmdQuote : shellQuote;
+  const bin = shell ? command.bin : command.bin.map((b) => quote(b));
+  return [...bin, ...command.args.map((a) => quote(a))].join(' ');
+}
+
+// Same codes a shell reports for a missing or non-executable program.
+const startErrorCode = (err: NodeJS.ErrnoException) =>
+  err.code === 'ENOENT' ? 127 : err.code === 'EACCES' ? 126 : 1;
+
+/**
+ * Thin wrapper around spawn that resolves with an exit code so hooks/compose invocations share the
+ * same logging and error handling surface. The program is spawned directly with its argv unless
+ * shell mode is on.
+ *
+ * Without a terminal the command runs in its own process group, so forwarded signals and kills
+ * reach every process it started. With a terminal it stays in the foreground group: Ctrl-C then
+ * already reaches it directly and only the other signals are forwarded, while it can still read
+ * from the terminal.
+ */
+export function spawnCommand(command: CommandLine, options: SpawnOptions): Promise<SpawnResult> {
+  const { cwd, env, shell = false, timeoutMs, interrupts, output } = options;
+  const { gracePeriodMs = DEFAULT_GRACE_PERIOD_MS, logger: log = silentLogger } = options;
+  const ownGroup = process.platform !== 'win32' && !isatty(0);
+  const cmd = formatCommand(command, shell);
+  const [file, ...args] = [...command.bin, ...command.args];
+  return new Promise((resolve) => {
+    log.info('running', { command: cmd });
+    const stdio: StdioOptions = output ? ['inherit', 'pipe', 'pipe'] : 'inherit';
+    const spawnOptions = { stdio, cwd, env, detached: ownGroup };
+    let child: ChildProcess;
+    try {
+      child = shell
+        ? spawn(cmd, { ...spawnOptions, shell: true })
+        : spawn(file, args, spawnOptions);
+    } catch (err) {
+      // e.g. EINVAL for a .cmd or .bat file without a shell on Windows.
+      const error = err as NodeJS.ErrnoException;
+      log.error('failed to start', { command: cmd, error: error.message });
+      resolve({ code: startErrorCode(error), timedOut: false, interrupted: false });
+      return;
+    }
+    child.stdout?.on('data', (chunk: Buffer) => output?.('stdout', chunk));
+    child.stderr?.on('data', (chunk: Buffer) => output?.('stderr', chunk));
+    let timedOut = false;
+    let interrupted = false;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const signal = (sig: NodeJS.Signals) => {
+      try {
+        if (ownGroup && child.pid !== undefined) process.kill(-child.pid, sig);
+        else child.kill(sig);
+      } catch {
+        // Already gone.
+      }
+    };
+    const escalate = () => {
+      killTimer ??= setTimeout(() => signal('SIGKILL'), gracePeriodMs);
+    };
+    const onInterrupt = (sig: InterruptSignal, count: number) => {
+      interrupted = true;
+      if (count > 1) {
+        log.warn('interrupted again, killing', { command: cmd });
+        signal('SIGKILL');
+        return;
+      }
+      log.warn('interrupted, stopping', { command: cmd, signal: sig, gracePeriodMs });
+      if (ownGroup || sig !== 'SIGINT') signal(sig);
+      escalate();
+    };
+    interrupts?.listeners.add(onInterrupt);
+
+    const timer =
+      timeoutMs === undefined
+        ? undefined
+        : setTimeout(() => {
+            timedOut = true;
+            log.error('timed out, stopping', { command: cmd, timeoutMs });
+            signal('SIGTERM');
+            escalate();
+          }, timeoutMs);
+    const done = (code: number, sig?: NodeJS.Signals) => {
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+      interrupts?.listeners.delete(onInterrupt);
+      const result = { code: timedOut ? TIMEOUT_EXIT_CODE : code, timedOut, interrupted };
+      resolve(sig ? { ...result, signal: sig } : result);
+    };
+    // With piped output, wait for the last chunk as well.
+    child.on(output ? 'close' : 'exit', (code: number | null, sig: NodeJS.Signals | null) => {
+      if (typeof code === 'number') done(code);
+      else done(sig ? signalExitCode(sig) : 0, sig ?? undefined);
+    });
+    child.on('error', (err: NodeJS.ErrnoException) => {
+      log.error('failed to start', { command: cmd, error: err.message });
+      done(startErrorCode(err));
+    });
+  });
+}
+
+export type CaptureResult = {
+  code: number;
+  stdout: string;
+  timedOut: boolean;
+};
+
+/**
+ * Run a command to completion and return its stdout; stdin and stderr stay on the terminal. This
+ * blocks, so it is only meant for short commands whose output is needed right away, such as env
+ * providers while the environment is resolved.
+ */
+export function captureCommand(
+  command: CommandLine,
+  options: Pick<SpawnOptions, 'cwd' | 'env' | 'shell' | 'timeoutMs' | 'logger'>,
+): CaptureResult {
+  const { cwd, env, shell = false, timeoutMs, logger: log = silentLogger } = options;
+  const cmd = formatCommand(command, shell);
+  const [file, ...args] = [...command.bin, ...command.args];
+  log.info('running', { command: cmd });
+  const stdio: StdioOptions = ['inherit', 'pipe', 'inherit'];
+  const spawnOptions = { stdio, cwd, env, timeout: timeoutMs, encoding: 'utf8' as const };
+  let result: SpawnSyncReturns<string>;
+  try {
+    result = shell
+      ? spawnSync(cmd, { ...spawnOptions, shell: true })
+      : spawnSync(file, args, spawnOptions);
+  } catch (err) {
+    const error = err as NodeJS.ErrnoException;
+    log.error('failed to start', { command: cmd, error: error.message });
+    return { code: startErrorCode(error), stdout: '', timedOut: false };
+  }
+  const error = result.error as NodeJS.ErrnoException | undefined;
+  if (error?.code === 'ETIMEDOUT') {
+    log.error('timed out, stopped', { command: cmd, timeoutMs });
+    return { code: TIMEOUT_EXIT_CODE, stdout: result.stdout ?? '', timedOut: true };
+  }
+  if (error) {
+    log.error('failed to start', { command: cmd, error: error.message });
+    return { code: startErrorCode(error), stdout: '', timedOut: false };
+  }
+  const code = result.status ?? (result.signal ? signalExitCode(result.signal) : 0);
+  return { code, stdout: result.stdout, timedOut: false };
+}
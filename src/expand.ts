@@ -0,0 +1,115 @@
+type StringMap = Record<string, string>;
+
+// Thrown while expanding a single value; `key` is the variable whose value could not be expanded
+// and `chain` every variable that was being expanded at the time.
+class ExpansionError extends Error {
+  key = '';
+  chain: string[] = [];
+}
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+// Index of the `}` closing a `${` that starts right before `start`, honouring nested references.
+function findClosingBrace(raw: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < raw.length; i++) {
+    if (raw[i] === '$' && raw[i + 1] === '{') {
+      depth++;
+      i++;
+    } else if (raw[i] === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function expandReference(expr: string, lookup: (name: string) => string | undefined): string {
+  const name = NAME_PATTERN.exec(expr)?.[0];
+  if (!name) throw new ExpansionError(`invalid reference "\${${expr}}"`);
+
+  const rest = expr.slice(name.length);
+  const op = /^(:-|-|:\?|\?)?/.exec(rest)?.[0] ?? '';
+  if (!op && rest) throw new ExpansionError(`invalid reference "\${${expr}}"`);
+
+  const value = lookup(name);
+  // `:` forms treat an empty value like an unset one, mirroring POSIX sh and compose.
+  const missing = value === undefined || (op.startsWith(':') && value === '');
+  if (!missing || !op) return value ?? '';
+
+  const arg = expandValue(rest.slice(op.length), lookup);
+  if (op.endsWith('-')) return arg;
+  throw new ExpansionError(`${name}: ${arg || 'required variable is not set'}`);
+}
+
+/**
+ * Expand `${VAR}`, `${VAR:-default}`, `${VAR-default}`, `${VAR:?error}` and `${VAR?error}` in a
+ * single value. `$$` yields a literal `$`, as in compose files.
+ */
+export function expandValue(raw: string, lookup: (name: string) => string | undefined): string {
+  let out = '';
+  let i = 0;
+  while (i < raw.length) {
+    if (raw[i] !== '$') {
+      out += raw[i++];
+    } else if (raw[i + 1] === '$') {
+      out += '$';
+      i += 2;
+    } else if (raw[i + 1] === '{') {
+      const end = findClosingBrace(raw, i + 2);
+      if (end < 0) throw new ExpansionError(`unterminated "\${" in "${raw}"`);
+      out += expandReference(raw.slice(i + 2, end), lookup);
+      i = end + 1;
+    } else {
+      out += raw[i++];
+    }
+  }
+  return out;
+}
+
+/**
+ * Expand the values of `keys` against the fully layered `env`, so a reference always sees the
+ * value that won the override order. Referenced keys that are also in `keys` are expanded first;
+ * any other value (e.g. from the OS env) is used verbatim. Returns the expanded values and one
+ * message per failure, including reference cycles.
+ */
+export function expandEnv(env: StringMap, keys: string[]): { values: StringMap; errors: string[] } {
+  const pending = new Set(keys);
+  const values: StringMap = {};
+  const failed = new Set<string>();
+  const errors = new Set<string>();
+
+  const resolve = (key: string, stack: string[]): string | undefined => {
+    if (key in values) return values[key];
+    if (!pending.has(key)) return env[key];
+    if (stack.includes(key)) {
+      const cycle = [...stack.slice(stack.indexOf(key)), key];
+      const err = new ExpansionError(`reference cycle ${cycle.join(' -> ')}`);
+      err.key = key;
+      err.chain = stack;
+      throw err;
+    }
+    try {
+      values[key] = expandValue(env[key], (name) => resolve(name, [...stack, key]));
+    } catch (err) {
+      if (err instanceof ExpansionError && !err.key) {
+        err.key = key;
+        err.chain = [...stack, key];
+      }
+      throw err;
+    }
+    return values[key];
+  };
+
+  for (const key of pending) {
+    if (failed.has(key)) continue;
+    try {
+      resolve(key, []);
+    } catch (err) {
+      if (!(err instanceof ExpansionError)) throw err;
+      errors.add(`${err.key}: ${err.message}`);
+      for (const k of [...err.chain, key]) failed.add(k);
+    }
+  }
+
+  return { values, errors: [...errors] };
+}
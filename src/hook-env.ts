@@ -0,0 +1,29 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { parse as parseDotenv } from 'dotenv';
+
+type StringMap = Record<string, string>;
+
+/**
+ * Create an empty file a hook can write `KEY=VALUE` lines to, like GitHub Actions' `GITHUB_ENV`.
+ * Each hook gets its own file inside a private temp directory.
+ */
+export function createHookEnvFile(): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'cmpcat-hook-'));
+  const file = path.join(dir, 'env');
+  writeFileSync(file, '', { mode: 0o600 });
+  return file;
+}
+
+/**
+ * Read what a hook exported and remove the temp directory. The file uses dotenv syntax, so quoted
+ * values may span several lines. A hook that deleted the file simply exported nothing.
+ */
+export function collectHookEnv(file: string): StringMap {
+  try {
+    return existsSync(file) ? parseDotenv(readFileSync(file, 'utf8')) : {};
+  } finally {
+    rmSync(path.dirname(file), { recursive: true, force: true });
+  }
+}
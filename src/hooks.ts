@@ -0,0 +1,543 @@
+import { existsSync, readdirSync, readFileSync, Stats, statSync } from 'node:fs';
+import path from 'node:path';
+import { globToRegExp } from './env-report.js';
+import { CommandLine, formatCommand, parseDuration } from './exec.js';
+
+export type HookStage = 'pre' | 'post';
+// What a hook runs for: a stage, or a hook step of a task.
+export type HookEvent = HookStage | 'task';
+
+// Directory scanned for ordered hooks in addition to the `cmp.*` files in the cwd.
+export const DEFAULT_HOOKS_DIR = '.cmp/hooks';
+
+// Sidecar files hold the same options as the header comment: `10-migrate.sh.json`.
+const SIDECAR_SUFFIX = '.json';
+// Only the start of a script is searched for the `cmp-hook:` header comment.
+const HEADER_BYTES = 4096;
+
+export type HookOptions = {
+  timeoutMs?: number;
+  // A failure is reported but neither stops the run nor changes the exit code.
+  continueOnError: boolean;
+  // Run even after an earlier hook or compose command failed.
+  always: boolean;
+};
+
+export type HookDef = {
+  kind: 'global' | 'command' | 'task';
+  stage: HookEvent;
+  additionalHookName?: string; // the hook name, or the task name for kind === 'task'
+  platform?: string;
+  binary?: string;
+  ext: string;
+  file: string; // absolute path
+  options: HookOptions;
+};
+
+export type HookStatus = 'ok' | 'failed' | 'timeout' | 'interrupted' | 'skipped';
+
+export type HookResult = {
+  stage: HookEvent;
+  name?: string;
+  file: string;
+  // The command line the hook runs with, e.g. `node cmp.pre.+node.js`.
+  command?: string;
+  status: HookStatus;
+  exitCode?: number;
+  // The signal that ended the hook, when it did not exit by itself.
+  signal?: string;
+  durationMs: number;
+  // ISO timestamps of a hook that ran.
+  startedAt?: string;
+  endedAt?: string;
+  // Why a hook was skipped, or "continue-on-error" for an ignored failure.
+  note?: string;
+};
+
+export type HookFilter = {
+  skipAll?: boolean;
+  // Globs matched against the hook file name and its path relative to the cwd.
+  only?: string[];
+};
+
+export type DiscoverHooksOptions = {
+  cwd: string;
+  hooksDir?: string;
+};
+
+export const HOOK_STAGES: HookStage[] = ['pre', 'post'];
+
+const GLOBAL_ROOT_HOOK_PATTERNS = [
+  /^cmp\.(?<stage>[^.]+)\.(?<ext>[^.]+)$/,
+  /^cmp\.(?<stage>[^.]+)\.(?<platformAndBinary>[^.]+)\.(?<ext>[^.]+)$/,
+];
+const NAMED_ROOT_HOOK_PATTERNS = [
+  /^cmp\.(?<stage>[^.]+)\.(?<cmd>[^.]+)\.(?<ext>[^.]+)$/,
+  /^cmp\.(?<stage>[^.]+)\.(?<cmd>[^.]+)\.(?<platformAndBinary>[^.]+)\.(?<ext>[^.]+)$/,
+];
+const DIR_HOOK_PATTERN = /^[^.]+(?:\.(?<platformAndBinary>[^.]*))?\.(?<ext>[^.]+)$/;
+
+// Platform names a hook file name may use, besides the current one.
+export const KNOWN_PLATFORMS = [
+  'win32',
+  'windows',
+  'darwin',
+  'macos',
+  'linux',
+  'freebsd',
+  'openbsd',
+];
+
+export function currentPlatform(): string[] {
+  const platform = process.platform; // 'darwin' | 'linux' | 'win32' | ...
+  if (platform === 'win32') return ['win32', 'windows'];
+  if (platform === 'darwin') return ['darwin', 'macos'];
+  if (platform === 'linux') return ['linux'];
+  return [platform];
+}
+
+// `linux`, `win32+pwsh` or `+node`: the platform must match, the binary runs the file.
+export function matchPlatformAndBinary(
+  platformAndBinary: string | undefined,
+  platforms: string[],
+): { binary?: string } | undefined {
+  const [platform, binary] = platformAndBinary?.split('+') ?? [];
+  if (platform && !platforms.includes(platform)) return undefined;
+  return { binary: binary || undefined };
+}
+
+/**
+ * Read the `cmp-hook:` header comment, e.g. `# cmp-hook: timeout=30s continue-on-error`. Any
+ * comment syntax works since only the text after the marker is parsed.
+ */
+function parseHeaderOptions(file: string, options: HookOptions, errors: string[]) {
+  let head: string;
+  try {
+    head = readFileSync(file).subarray(0, HEADER_BYTES).toString('utf8');
+  } catch {
+    return;
+  }
+  for (const line of head.split(/\r?\n/)) {
+    const m = line.match(/cmp-hook:(.*)$/);
+    if (!m) continue;
+    for (const token of m[1].split(/[\s,]+/).filter(Boolean)) {
+      const [name, value] = token.split('=', 2);
+      if (name === 'timeout' && value !== undefined) {
+        const timeoutMs = parseDuration(value);
+        if (timeoutMs === undefined) errors.push(`${file}: invalid timeout "${value}"`);
+        else options.timeoutMs = timeoutMs;
+      } else if (name === 'continue-on-error' && value === undefined) {
+        options.continueOnError = true;
+      } else if ((name === 'always' || name === 'always-run') && value === undefined) {
+        options.always = true;
+      } else {
+        errors.push(`${file}: unknown cmp-hook option "${token}"`);
+      }
+    }
+  }
+}
+
+function parseSidecarOptions(sidecar: string, options: HookOptions, errors: string[]) {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(sidecar, 'utf8'));
+  } catch (err) {
+    errors.push(`${sidecar}: ${err instanceof Error ? err.message : String(err)}`);
+    return;
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    errors.push(`${sidecar}: expected a JSON object`);
+    return;
+  }
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === 'timeout' && (typeof value === 'number' || typeof value === 'string')) {
+      const timeoutMs = parseDuration(value);
+      if (timeoutMs === undefined) errors.push(`${sidecar}: invalid timeout "${value}"`);
+      else options.timeoutMs = timeoutMs;
+    } else if ((key === 'continueOnError' || key === 'always') && typeof value === 'boolean') {
+      options[key] = value;
+    } else {
+      errors.push(`${sidecar}: unknown or invalid key "${key}"`);
+    }
+  }
+}
+
+/**
+ * Per hook options from the header comment, overridden by the sidecar file when there is one.
+ */
+export function readHookOptions(file: string, errors: string[]): HookOptions {
+  const options: HookOptions = { continueOnError: false, always: false };
+  parseHeaderOptions(file, options, errors);
+  const sidecar = `${file}${SIDECAR_SUFFIX}`;
+  if (existsSync(sidecar)) parseSidecarOptions(sidecar, options, errors);
+  return options;
+}
+
+function listEntries(dir: string): string[] {
+  try {
+    return readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
+
+function isSidecar(name: string, entries: string[]): boolean {
+  return name.endsWith(SIDECAR_SUFFIX) && entries.includes(name.slice(0, -SIDECAR_SUFFIX.length));
+}
+
+// `cmp.<stage>[.<cmd>][.<platform+binary>].<ext>` files in the cwd.
+function discoverRootHooks(
+  stage: HookStage,
+  cmd: string | undefined,
+  cwd: string,
+  platforms: string[],
+  errors: string[],
+): HookDef[] {
+  const entries = listEntries(cwd);
+  const filePatterns = cmd ? NAMED_ROOT_HOOK_PATTERNS : GLOBAL_ROOT_HOOK_PATTERNS;
+
+  // Files without a platform/binary part run before the ones with it.
+  const buckets: HookDef[][] = filePatterns.map(() => []);
+  for (const name of entries) {
+    if (!name.startsWith('cmp.') || isSidecar(name, entries)) continue;
+    const index = filePatterns.findIndex((p) => p.test(name));
+    if (index < 0) continue;
+    const groups = name.match(filePatterns[index])?.groups ?? {};
+    if (groups.stage !== stage || (cmd && groups.cmd !== cmd)) continue;
+    const match = matchPlatformAndBinary(groups.platformAndBinary, platforms);
+    if (!match) continue;
+
+    const file = path.resolve(cwd, name);
+    buckets[index].push({
+      kind: cmd ? 'command' : 'global',
+      additionalHookName: cmd,
+      stage,
+      platform: platforms[0],
+      binary: match.binary,
+      ext: groups.ext,
+      file,
+      options: readHookOptions(file, errors),
+    });
+  }
+  return buckets.flat();
+}
+
+type HookFileInfo = {
+  // Only known for files in the cwd; in the hooks directory the stage is the directory name.
+  stage?: string;
+  name?: string;
+  platform?: string;
+  binary?: string;
+  // Whether the platform part allows the hook to run on this machine.
+  runsHere: boolean;
+};
+
+/**
+ * Read a file name the way hook discovery does. Undefined when the name can never be a hook. In the
+ * cwd `cmp.pre.up.sh` is the named hook `up`, while `cmp.pre.linux.sh` and `cmp.pre.+node.js` name
+ * a platform and binary.
+ */
+function parseHookFileName(name: string, location: 'cwd' | 'dir'): HookFileInfo | undefined {
+  const looksLikePlatform = (value?: string) =>
+    value !== undefined && (value.includes('+') || KNOWN_PLATFORMS.includes(value));
+  const patterns =
+    location === 'cwd'
+      ? [...NAMED_ROOT_HOOK_PATTERNS, ...GLOBAL_ROOT_HOOK_PATTERNS]
+      : [DIR_HOOK_PATTERN];
+  const matches = patterns
+    .map((p) => name.match(p)?.groups)
+    .filter((g): g is Record<string, string> => g !== undefined);
+  if (matches.length === 0) return undefined;
+  const groups =
+    location === 'dir'
+      ? matches[0]
+      : (matches.find((g) => looksLikePlatform(g.platformAndBinary)) ??
+        matches.find((g) => g.platformAndBinary === undefined) ??
+        matches[0]);
+  const [platform, binary] = groups.platformAndBinary?.split('+') ?? [];
+  return {
+    stage: groups.stage,
+    name: groups.cmd,
+    platform: platform || undefined,
+    binary: binary || undefined,
+    runsHere: matchPlatformAndBinary(groups.platformAndBinary, currentPlatform()) !== undefined,
+  };
+}
+
+export type HookFileIssue = {
+  file: string;
+  severity: 'info' | 'warn' | 'error';
+  message: string;
+};
+
+/**
+ * Check hook files without running them: `cmp.*` files and hooks directory entries no hook pattern
+ * matches (usually typos), hooks that cannot be executed directly, hooks for other platforms, named
+ * hooks that are not enabled, invalid hook options and entries that cannot be read, such as broken
+ * symlinks.
+ */
+export function lintHookFiles(
+  options: DiscoverHooksOptions & { hookNames?: string[] },
+): HookFileIssue[] {
+  const { cwd, hookNames = [] } = options;
+  const issues: HookFileIssue[] = [];
+  // Follows symlinks; undefined for a broken one or an entry that cannot be read, which is reported.
+  const stat = (file: string) => {
+    let stats: Stats | undefined;
+    try {
+      stats = statSync(file, { throwIfNoEntry: false });
+    } catch {
+      // Reported below.
+    }
+    if (!stats)
+      issues.push({ file, severity: 'error', message: 'cannot be read (broken symlink?)' });
+    return stats;
+  };
+
+  const checkHook = (file: string, stats: Stats, info: HookFileInfo) => {
+    const errors: string[] = [];
+    readHookOptions(file, errors);
+    issues.push(...errors.map((message) => ({ file, severity: 'error' as const, message })));
+    if (info.name !== undefined && !hookNames.includes(info.name)) {
+      const message = `named hook "${info.name}" only runs with --cmp-hook ${info.name}`;
+      issues.push({ file, severity: 'info', message });
+    }
+    if (!info.runsHere) {
+      issues.push({ file, severity: 'info', message: `only runs on ${info.platform}` });
+      return;
+    }
+    // Hooks without a binary are spawned as programs, which needs the exec bit. Without a `#!`
+    // line they still run, through /bin/sh, so that is only worth a warning.
+    if (info.binary || process.platform === 'win32') return;
+    if ((stats.mode & 0o111) === 0) {
+      const message = 'is not executable (chmod +x it or name a +binary)';
+      issues.push({ file, severity: 'error', message });
+    }
+    if (readFileSync(file).subarray(0, 2).toString('utf8') !== '#!') {
+      const message = 'has no #! line, so it runs with /bin/sh (add one or name a +binary)';
+      issues.push({ file, severity: 'warn', message });
+    }
+  };
+
+  const rootEntries = listEntries(cwd);
+  for (const name of rootEntries) {
+    const file = path.resolve(cwd, name);
+    if (!name.startsWith('cmp.') || isSidecar(name, rootEntries)) continue;
+    const stats = stat(file);
+    if (!stats?.isFile()) continue;
+    const info = parseHookFileName(name, 'cwd');
+    if (!info || !HOOK_STAGES.includes(info.stage as HookStage)) {
+      const message = 'matches no hook pattern (cmp.<pre|post>[.<name>][.<platform+binary>].<ext>)';
+      issues.push({ file, severity: 'warn', message });
+      continue;
+    }
+    checkHook(file, stats, info);
+  }
+
+  const dir = path.resolve(cwd, options.hooksDir ?? DEFAULT_HOOKS_DIR);
+  for (const stageName of listEntries(dir)) {
+    const stageDir = path.join(dir, stageName);
+    if (stageName.startsWith('.')) continue;
+    const m = stageName.match(/^(?<stage>[^.]+)(?:\.(?<name>.+))?$/);
+    const stageStats = stat(stageDir);
+    if (!stageStats) continue;
+    if (!stageStats.isDirectory() || !HOOK_STAGES.includes(m?.groups?.stage as HookStage)) {
+      const message = 'is not a hook stage directory (<pre|post>[.<name>])';
+      issues.push({ file: stageDir, severity: 'warn', message });
+      continue;
+    }
+    const entries = listEntries(stageDir);
+    for (const name of entries) {
+      const file = path.join(stageDir, name);
+      if (name.startsWith('.') || isSidecar(name, entries)) continue;
+      const stats = stat(file);
+      if (!stats?.isFile()) continue;
+      const info = parseHookFileName(name, 'dir');
+      if (!info) {
+        const message = 'matches no hook pattern (<label>[.<platform+binary>].<ext>)';
+        issues.push({ file, severity: 'warn', message });
+        continue;
+      }
+      checkHook(file, stats, { ...info, name: m?.groups?.name });
+    }
+  }
+  return issues;
+}
+
+// Numeric prefix of `10-migrate.sh`; files without one run last.
+function hookOrder(name: string): number {
+  const m = name.match(/^(\d+)-/);
+  return m ? Number(m[1]) : Number.POSITIVE_INFINITY;
+}
+
+// `<hooksDir>/<stage>/` for global hooks and `<hooksDir>/<stage>.<cmd>/` for named ones. Files are
+// named `<label>[.<platform+binary>].<ext>` and ordered by their numeric prefix, then by name.
+function discoverDirHooks(
+  stage: HookStage,
+  cmd: string | undefined,
+  dir: string,
+  platforms: string[],
+  errors: string[],
+): HookDef[] {
+  const stageDir = path.resolve(dir, cmd ? `${stage}.${cmd}` : stage);
+  const entries = listEntries(stageDir);
+  const hooks: { name: string; hook: HookDef }[] = [];
+  for (const name of entries) {
+    if (name.startsWith('.') || isSidecar(name, entries)) continue;
+    const file = path.join(stageDir, name);
+    if (!statSync(file, { throwIfNoEntry: false })?.isFile()) continue;
+    const groups = name.match(DIR_HOOK_PATTERN)?.groups;
+    if (!groups) continue;
+    const match = matchPlatformAndBinary(groups.platformAndBinary, platforms);
+    if (!match) continue;
+
+    hooks.push({
+      name,
+      hook: {
+        kind: cmd ? 'command' : 'global',
+        additionalHookName: cmd,
+        stage,
+        platform: platforms[0],
+        binary: match.binary,
+        ext: groups.ext,
+        file,
+        options: readHookOptions(file, errors),
+      },
+    });
+  }
+  hooks.sort((a, b) => hookOrder(a.name) - hookOrder(b.name) || a.name.localeCompare(b.name));
+  return hooks.map((h) => h.hook);
+}
+
+/**
+ * Find the hooks that apply to a stage (and optional hook name): first the `cmp.*` files in the
+ * working directory, then the ordered hooks in the hooks directory. Invalid hook options are
+ * collected in `errors`.
+ */
+export function discoverHooks(
+  stage: HookStage,
+  cmd: string | undefined,
+  options: DiscoverHooksOptions,
+): { hooks: HookDef[]; errors: string[] } {
+  const platforms = currentPlatform();
+  const errors: string[] = [];
+  const hooks = [
+    ...discoverRootHooks(stage, cmd, options.cwd, platforms, errors),
+    ...discoverDirHooks(
+      stage,
+      cmd,
+      path.resolve(options.cwd, options.hooksDir ?? DEFAULT_HOOKS_DIR),
+      platforms,
+      errors,
+    ),
+  ];
+  return { hooks, errors };
+}
+
+/**
+ * Names `--cmp-hook` enables hooks for: those of `cmp.<stage>.<name>.*` files in the cwd and of
+ * `<stage>.<name>` directories in the hooks directory. Hooks for other platforms are left out.
+ */
+export function listHookNames(options: DiscoverHooksOptions): string[] {
+  const names = new Set<string>();
+  for (const name of listEntries(options.cwd)) {
+    const info = name.startsWith('cmp.') ? parseHookFileName(name, 'cwd') : undefined;
+    if (!info?.name || !info.runsHere || !HOOK_STAGES.includes(info.stage as HookStage)) continue;
+    names.add(info.name);
+  }
+  const dir = path.resolve(options.cwd, options.hooksDir ?? DEFAULT_HOOKS_DIR);
+  for (const stageName of listEntries(dir)) {
+    const m = stageName.match(/^(?<stage>[^.]+)\.(?<name>.+)$/);
+    if (m?.groups && HOOK_STAGES.includes(m.groups.stage as HookStage)) names.add(m.groups.name);
+  }
+  return [...names].sort();
+}
+
+/**
+ * A `hook` step of a task: a script path relative to the cwd, run like any other hook. Header and
+ * sidecar options apply; the platform and binary parts of hook file names do not.
+ */
+export function taskHook(
+  task: string,
+  file: string,
+  cwd: string,
+  errors: string[],
+): HookDef | undefined {
+  const resolved = path.resolve(cwd, file);
+  if (!statSync(resolved, { throwIfNoEntry: false })?.isFile()) {
+    errors.push(`task "${task}": hook ${file} not found`);
+    return undefined;
+  }
+  return {
+    kind: 'task',
+    stage: 'task',
+    additionalHookName: task,
+    ext: path.extname(resolved).slice(1),
+    file: resolved,
+    options: readHookOptions(resolved, errors),
+  };
+}
+
+// Windows cannot execute these files by themselves. `cmd` runs without /s so that the quotes
+// around a path with spaces are kept.
+const WIN32_INTERPRETERS: Record<string, string[]> = {
+  ps1: ['powershell', '-NoProfile', '-File'],
+  cmd: ['cmd', '/d', '/c'],
+  bat: ['cmd', '/d', '/c'],
+};
+
+/**
+ * The command that runs a hook: its `+binary`, or on Windows the interpreter of a `ps1`, `cmd` or
+ * `bat` file, or else the file itself. The hook file is always a single argument, whatever
+ * characters its path contains.
+ */
+export function hookCommandLine(h: HookDef, platform = process.platform): CommandLine {
+  if (h.binary) return { bin: [h.binary], args: [h.file] };
+  const interpreter = platform === 'win32' ? WIN32_INTERPRETERS[h.ext.toLowerCase()] : undefined;
+  return { bin: interpreter ?? [], args: [h.file] };
+}
+
+export function hookCommand(h: HookDef, shell = false): string {
+  return formatCommand(hookCommandLine(h), shell);
+}
+
+// Why the filter excludes a hook, or undefined when it may run.
+export function hookFilterReason(h: HookDef, filter: HookFilter, cwd: string): string | undefined {
+  if (filter.skipAll) return '--cmp-skip-hooks';
+  if (!filter.only || filter.only.length === 0) return undefined;
+  const names = [path.basename(h.file), path.relative(cwd, h.file)];
+  const matches = filter.only.some((glob) => names.some((n) => globToRegExp(glob).test(n)));
+  return matches ? undefined : 'not in --cmp-only-hooks';
+}
+
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatStatus(result: HookResult): string {
+  const details = [
+    result.exitCode !== undefined ? `exit ${result.exitCode}` : undefined,
+    result.note,
+  ].filter(Boolean);
+  return details.length > 0 ? `${result.status} (${details.join(', ')})` : result.status;
+}
+
+/**
+ * Render a summary table of every hook considered in a run: stage, file, status and duration.
+ */
+export function formatHookSummary(results: HookResult[], cwd: string): string[] {
+  const rows = results.map((r) => [
+    r.name ? `${r.stage} ${r.name}` : r.stage,
+    path.relative(cwd, r.file) || r.file,
+    formatStatus(r),
+    r.status === 'skipped' ? '-' : formatDuration(r.durationMs),
+  ]);
+  const header = ['STAGE', 'HOOK', 'STATUS', 'DURATION'];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  return [header, ...rows].map((row) =>
+    row
+      .map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i])))
+      .join('  ')
+      .trimEnd(),
+  );
+}
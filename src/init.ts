@@ -0,0 +1,199 @@
+import { appendFileSync, chmodSync, existsSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { CONFIG_FILE_NAMES } from './config.js';
+import { ComposeCatOptions, DEFAULT_DOTENV_PREFIX, resolveOptions } from './environment.js';
+
+// Profile templates written when no profile is given or configured.
+export const DEFAULT_INIT_PROFILES = ['dev'];
+
+export type InitOptions = ComposeCatOptions & {
+  // Write example pre and post hooks for the current platform (default: true).
+  hooks?: boolean;
+  // Also write a config file.
+  config?: boolean;
+  // Replace files that already exist instead of skipping them.
+  force?: boolean;
+};
+
+// `append` only adds the missing lines to an existing .gitignore.
+export type InitAction = 'create' | 'overwrite' | 'append' | 'skip';
+
+export type InitFile = {
+  file: string;
+  action: InitAction;
+  content: string;
+  executable?: boolean;
+};
+
+export type InitResult = {
+  cwd: string;
+  files: InitFile[];
+  errors: string[];
+};
+
+// Lowercase letters, digits, dashes and underscores, starting with a letter or digit.
+function projectName(cwd: string): string {
+  const name = path
+    .basename(cwd)
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/^[^a-z0-9]+/, '');
+  return name || 'app';
+}
+
+function dotenvTemplates(cwd: string, dotenvPrefix: string, profiles: string[]) {
+  const templates: Record<string, string> = {
+    [dotenvPrefix]: [
+      '# Defaults for every profile, committed with the project.',
+      `# ${dotenvPrefix}.<profile> and the *.local files override these values.`,
+      `COMPOSE_PROJECT_NAME=${projectName(cwd)}`,
+      '# COMPOSE_FILE=compose.yaml',
+      '',
+    ].join('\n'),
+    [`${dotenvPrefix}.local`]: [
+      '# Overrides for this machine only. Not committed (see .gitignore).',
+      '',
+    ].join('\n'),
+  };
+  for (const profile of profiles) {
+    templates[`${dotenvPrefix}.${profile}`] = [
+      `# Values for --profile ${profile}, committed with the project.`,
+      `# Overrides for this machine go to ${dotenvPrefix}.${profile}.local.`,
+      '',
+    ].join('\n');
+  }
+  return templates;
+}
+
+// Named for the current platform so the examples run where they were generated.
+function hookTemplates(prefix: string): Record<string, string> {
+  if (process.platform === 'win32') {
+    return {
+      'cmp.pre.win32+pwsh.ps1': [
+        '# Runs before the compose command; a non-zero exit code stops the run.',
+        `# KEY=VALUE lines written to $env:${prefix}HOOK_ENV_OUT are passed on to compose.`,
+        "$ErrorActionPreference = 'Stop'",
+        `[Console]::Error.WriteLine("pre hook: profiles $env:${prefix}PROFILES")`,
+        '',
+      ].join('\n'),
+      'cmp.post.win32+pwsh.ps1': [
+        `# Runs after the compose command; ${prefix}HOOK_EXIT_REASON is success, failure or signal.`,
+        `[Console]::Error.WriteLine("post hook: $env:${prefix}HOOK_EXIT_REASON")`,
+        '',
+      ].join('\n'),
+    };
+  }
+  return {
+    'cmp.pre.sh': [
+      '#!/bin/sh',
+      '# Runs before the compose command; a non-zero exit code stops the run.',
+      `# KEY=VALUE lines written to $${prefix}HOOK_ENV_OUT are passed on to compose.`,
+      'set -e',
+      `echo "pre hook: profiles \${${prefix}PROFILES}" >&2`,
+      '',
+    ].join('\n'),
+    'cmp.post.sh': [
+      '#!/bin/sh',
+      `# Runs after the compose command; ${prefix}HOOK_EXIT_REASON is success, failure or signal.`,
+      `echo "post hook: \${${prefix}HOOK_EXIT_REASON}" >&2`,
+      '',
+    ].join('\n'),
+  };
+}
+
+function configTemplate(dotenvPrefix: string, profiles: string[]): string {
+  const config: Record<string, unknown> = { profile: profiles.slice(0, 1) };
+  if (dotenvPrefix !== DEFAULT_DOTENV_PREFIX) config.cmpDotenvPrefix = dotenvPrefix;
+  return `${JSON.stringify(config, null, 2)}\n`;
+}
+
+// Lines of `.gitignore` that are missing from the existing file, if any.
+function missingGitignoreLines(file: string, dotenvPrefix: string): string[] {
+  const wanted = [`${dotenvPrefix}*.local`, `${dotenvPrefix}.key`];
+  if (!existsSync(file)) return wanted;
+  const present = readFileSync(file, 'utf8')
+    .split(/\r?\n/)
+    .map((line) => line.trim());
+  return wanted.filter((line) => !present.includes(line));
+}
+
+/**
+ * The files `cmp-init` writes and what happens to each one: base, local and per-profile dotenv
+ * templates, the `.gitignore` entries for `*.local` files and the secrets key, example hooks for
+ * the current platform and optionally a config file. Existing files are skipped unless `force` is
+ * set; `.gitignore` is never replaced, only extended.
+ */
+export function planInit(options: InitOptions = {}): InitResult {
+  const resolved = resolveOptions(options);
+  const { cwd, dotenvPrefix, prefix, errors } = resolved;
+  const profiles = resolved.profiles.length > 0 ? resolved.profiles : DEFAULT_INIT_PROFILES;
+  const files: InitFile[] = [];
+  if (errors.length > 0) return { cwd, files, errors };
+
+  const add = (name: string, content: string, executable?: boolean) => {
+    const file = path.join(cwd, name);
+    const exists = existsSync(file);
+    const action = !exists ? 'create' : options.force ? 'overwrite' : 'skip';
+    files.push({ file, action, content, ...(executable ? { executable } : {}) });
+  };
+
+  for (const [name, content] of Object.entries(dotenvTemplates(cwd, dotenvPrefix, profiles))) {
+    add(name, content);
+  }
+  const gitignore = path.join(cwd, '.gitignore');
+  const missing = missingGitignoreLines(gitignore, dotenvPrefix);
+  files.push({
+    file: gitignore,
+    action: missing.length === 0 ? 'skip' : existsSync(gitignore) ? 'append' : 'create',
+    content: [
+      '# compose-cat: machine-specific dotenv files and the secrets key',
+      ...missing,
+      '',
+    ].join('\n'),
+  });
+  if (options.hooks ?? true) {
+    for (const [name, content] of Object.entries(hookTemplates(prefix))) {
+      add(name, content, process.platform !== 'win32');
+    }
+  }
+  if (options.config) {
+    // An existing config in the cwd, e.g. `.composecatrc`, is the one to keep or replace.
+    const existing =
+      resolved.configFile && path.dirname(resolved.configFile) === cwd
+        ? path.basename(resolved.configFile)
+        : undefined;
+    add(existing ?? CONFIG_FILE_NAMES[0], configTemplate(dotenvPrefix, profiles));
+  }
+  return { cwd, files, errors };
+}
+
+/**
+ * Scaffold a project like `cmp-init` (see `planInit`). Files that appear between planning and
+ * writing are skipped too, so nothing is ever replaced without `force`.
+ */
+export function initProject(options: InitOptions = {}): InitResult {
+  const result = planInit(options);
+  for (const entry of result.files) {
+    const { file, action, content, executable } = entry;
+    const mode = executable ? 0o755 : 0o644;
+    try {
+      if (action === 'create') {
+        writeFileSync(file, content, { flag: 'wx', mode });
+      } else if (action === 'overwrite') {
+        writeFileSync(file, content);
+        if (executable) chmodSync(file, mode);
+      } else if (action === 'append') {
+        const existing = readFileSync(file, 'utf8');
+        const separator = existing === '' ? '' : existing.endsWith('\n') ? '\n' : '\n\n';
+        appendFileSync(file, `${separator}${content}`);
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+        entry.action = 'skip';
+        continue;
+      }
+      result.errors.push(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,234 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { composeSubcommandIndex } from './compose.js';
+import { COMPOSE_CAT_SOURCE, PROCESS_ENV_SOURCE, SECRET_KEY_PATTERN } from './env-report.js';
+import { ResolvedEnvironment } from './environment.js';
+import { isEncryptedEnvFile } from './secrets.js';
+
+type StringMap = Record<string, string>;
+
+// Written to and read from the cwd.
+export const LOCK_FILE_NAME = 'compose-cat.lock.json';
+export const LOCK_FILE_VERSION = 1;
+
+const MASK = '********';
+
+// Shorter secret values, such as `1` or `true`, are only masked as the value of their own key:
+// replaced anywhere they would also hit unrelated ports, flags and image tags.
+const MIN_MASKED_LENGTH = 6;
+
+// `KEY: value` and `- KEY=value`, the forms of an environment entry in `config` output.
+const ENV_ENTRY = /^(\s*(?:- )?["']?)([A-Za-z_][A-Za-z0-9_.-]*)(["']?(?:: |=))(.*)$/;
+
+/**
+ * What `cmp-lock` records and `--cmp-frozen` compares: the inputs and the outcome of a resolution
+ * that can drift between machines or over time.
+ */
+export type LockFile = {
+  version: number;
+  compose: { bin: string; flavour: string; version?: string };
+  // sha256 of every dotenv file and env provider in merge order, keyed by path relative to the cwd.
+  envFiles: StringMap;
+  // Merged values that came from dotenv files or the env schema. Values from the OS environment,
+  // encrypted files, env providers and of secret-looking keys are left out.
+  env: StringMap;
+  // Output of `<bin> config` with secrets masked and the cwd replaced by `<cwd>`.
+  composeConfig: string;
+};
+
+const relative = (cwd: string, file: string) =>
+  (path.relative(cwd, file) || file).split(path.sep).join('/');
+
+function hashFile(file: string): string {
+  try {
+    return createHash('sha256').update(readFileSync(file)).digest('hex');
+  } catch {
+    return 'missing';
+  }
+}
+
+// Keys whose winning value must not end up in a file that is committed, or differs on every run.
+function unstableOrSecretKeys(environment: ResolvedEnvironment): string[] {
+  const { mergedEnv, provenance, generatedEnv } = environment;
+  return Object.keys(mergedEnv).filter((key) => {
+    const sources = provenance[key] ?? [];
+    const source = sources[sources.length - 1]?.source ?? COMPOSE_CAT_SOURCE;
+    return SECRET_KEY_PATTERN.test(key) || isEncryptedEnvFile(source) || source in generatedEnv;
+  });
+}
+
+function lockedEnv(environment: ResolvedEnvironment): StringMap {
+  const { mergedEnv, provenance } = environment;
+  const skipped = unstableOrSecretKeys(environment);
+  const env: StringMap = {};
+  for (const key of Object.keys(mergedEnv).sort()) {
+    const sources = provenance[key] ?? [];
+    const source = sources[sources.length - 1]?.source;
+    if (!source || source === PROCESS_ENV_SOURCE || source === COMPOSE_CAT_SOURCE) continue;
+    if (!skipped.includes(key)) env[key] = mergedEnv[key];
+  }
+  return env;
+}
+
+/**
+ * The compose args that print the config of a run: the global options of `args` (generated flags
+ * included) followed by `config`.
+ */
+export function configInvocation(args: string[]): string[] {
+  const index = composeSubcommandIndex(args);
+  return [...(index < 0 ? args : args.slice(0, index)), 'config'];
+}
+
+// Line endings and trailing whitespace vary between flavours and platforms; secrets and the
+// checkout location must not end up in the lock file.
+function normalizeComposeConfig(output: string, environment: ResolvedEnvironment): string {
+  const keys = unstableOrSecretKeys(environment);
+  const secrets = keys
+    .map((key) => environment.mergedEnv[key])
+    .filter((value) => value.length >= MIN_MASKED_LENGTH)
+    .sort((a, b) => b.length - a.length);
+  const lines = output
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => {
+      const entry = ENV_ENTRY.exec(line);
+      if (entry && keys.includes(entry[2]) && entry[4].trim() !== '') {
+        return `${entry[1]}${entry[2]}${entry[3]}${MASK}`;
+      }
+      for (const secret of secrets) line = line.split(secret).join(MASK);
+      return line;
+    });
+  return `${lines
+    .join('\n')
+    .split(environment.cwd)
+    .join('<cwd>')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trimEnd()}\n`;
+}
+
+/** Build the lock of a resolved environment from the compose binary and its `config` output. */
+export function buildLock(
+  environment: ResolvedEnvironment,
+  compose: LockFile['compose'],
+  configOutput: string,
+): LockFile {
+  const { cwd, envFiles } = environment;
+  return {
+    version: LOCK_FILE_VERSION,
+    compose,
+    envFiles: Object.fromEntries(envFiles.map((f) => [relative(cwd, f), hashFile(f)])),
+    env: lockedEnv(environment),
+    composeConfig: normalizeComposeConfig(configOutput, environment),
+  };
+}
+
+export function formatLockFile(lock: LockFile): string {
+  return `${JSON.stringify(lock, null, 2)}\n`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Read a lock file written by `cmp-lock`. A missing or unreadable file is an error. */
+export function readLockFile(file: string): { lock?: LockFile; errors: string[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (err) {
+    const missing = (err as NodeJS.ErrnoException).code === 'ENOENT';
+    const reason = missing
+      ? 'not found, run cmp-lock first'
+      : err instanceof Error
+        ? err.message
+        : String(err);
+    return { errors: [`${file}: ${reason}`] };
+  }
+  if (!isPlainObject(raw) || raw.version !== LOCK_FILE_VERSION) {
+    return {
+      errors: [`${file}: not a version ${LOCK_FILE_VERSION} lock file, run cmp-lock again`],
+    };
+  }
+  const { compose, envFiles, env, composeConfig } = raw;
+  if (
+    !isPlainObject(compose) ||
+    !isPlainObject(envFiles) ||
+    !isPlainObject(env) ||
+    typeof composeConfig !== 'string'
+  ) {
+    return { errors: [`${file}: malformed lock file, run cmp-lock again`] };
+  }
+  return { lock: raw as LockFile, errors: [] };
+}
+
+const describeCompose = (c: LockFile['compose']) =>
+  `${c.bin} (${[c.flavour, c.version].filter(Boolean).join(' ')})`;
+
+// Changed lines with the line number of each hunk in the locked config; unchanged lines are
+// left out. Configs are small, so the quadratic longest common subsequence is fine.
+function diffLines(before: string, after: string): string[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const lines: string[] = [];
+  let inHunk = false;
+  for (let i = 0, j = 0; i < a.length || j < b.length; ) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      i++;
+      j++;
+      inHunk = false;
+      continue;
+    }
+    if (!inHunk) lines.push(`@@ line ${i + 1}`);
+    inHunk = true;
+    if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push(`- ${a[i++]}`);
+    } else {
+      lines.push(`+ ${b[j++]}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Describe every difference between a lock file and the current resolution, one line each (the
+ * compose config as a line diff). Empty when they match.
+ */
+export function diffLock(locked: LockFile, current: LockFile): string[] {
+  const lines: string[] = [];
+  if (describeCompose(locked.compose) !== describeCompose(current.compose)) {
+    lines.push(
+      `compose binary: ${describeCompose(locked.compose)} -> ${describeCompose(current.compose)}`,
+    );
+  }
+  const files = [...new Set([...Object.keys(locked.envFiles), ...Object.keys(current.envFiles)])];
+  for (const file of files) {
+    if (!(file in current.envFiles)) lines.push(`env file ${file}: no longer used`);
+    else if (!(file in locked.envFiles)) lines.push(`env file ${file}: not in the lock file`);
+    else if (locked.envFiles[file] !== current.envFiles[file]) {
+      lines.push(`env file ${file}: content changed`);
+    }
+  }
+  const keys = [...new Set([...Object.keys(locked.env), ...Object.keys(current.env)])].sort();
+  for (const key of keys) {
+    const before = locked.env[key];
+    const after = current.env[key];
+    if (before === after) continue;
+    if (after === undefined) lines.push(`env ${key}: removed (was ${JSON.stringify(before)})`);
+    else if (before === undefined) lines.push(`env ${key}: added (${JSON.stringify(after)})`);
+    else lines.push(`env ${key}: ${JSON.stringify(before)} -> ${JSON.stringify(after)}`);
+  }
+  if (locked.composeConfig !== current.composeConfig) {
+    lines.push('compose config:');
+    lines.push(...diffLines(locked.composeConfig, current.composeConfig).map((l) => `  ${l}`));
+  }
+  return lines;
+}
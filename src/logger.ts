@@ -0,0 +1,95 @@
+export type LogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug';
+export type LogFormat = 'text' | 'json';
+
+export const LOG_LEVELS: LogLevel[] = ['silent', 'error', 'warn', 'info', 'debug'];
+export const LOG_FORMATS: LogFormat[] = ['text', 'json'];
+
+// Key names whose values are replaced before anything is logged.
+export const DEFAULT_REDACT_PATTERNS = ['PASSWORD', 'TOKEN', 'SECRET', 'KEY'];
+
+const REDACTED = '********';
+
+type LogFields = Record<string, unknown>;
+
+export type LoggerOptions = {
+  level?: LogLevel;
+  format?: LogFormat;
+  redactPatterns?: string[];
+  // Where log lines go (default: stderr).
+  sink?: (line: string) => void;
+};
+
+export type Logger = {
+  level: LogLevel;
+  format: LogFormat;
+  error: (msg: string, fields?: LogFields) => void;
+  warn: (msg: string, fields?: LogFields) => void;
+  info: (msg: string, fields?: LogFields) => void;
+  debug: (msg: string, fields?: LogFields) => void;
+};
+
+function toRedactPattern(patterns: string[]): RegExp | undefined {
+  if (patterns.length === 0) return undefined;
+  return new RegExp(patterns.join('|'), 'i');
+}
+
+export function isLogLevelEnabled(logger: Logger, target: LogLevel): boolean {
+  return target !== 'silent' && LOG_LEVELS.indexOf(target) <= LOG_LEVELS.indexOf(logger.level);
+}
+
+function redactWith(value: unknown, pattern: RegExp | undefined): unknown {
+  if (Array.isArray(value)) return value.map((v) => redactWith(v, pattern));
+  if (typeof value !== 'object' || value === null) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [
+      k,
+      pattern?.test(k) && typeof v === 'string' && v !== '' ? REDACTED : redactWith(v, pattern),
+    ]),
+  );
+}
+
+/**
+ * Replace the values of keys matching the redact patterns, at any depth. Env maps are logged as
+ * plain objects, so this covers dotenv and process env dumps alike.
+ */
+export function redact(value: unknown, patterns = DEFAULT_REDACT_PATTERNS): unknown {
+  return redactWith(value, toRedactPattern(patterns));
+}
+
+function formatField(value: unknown): string {
+  if (typeof value === 'string') return /\s/.test(value) ? JSON.stringify(value) : value;
+  return JSON.stringify(value);
+}
+
+/**
+ * A logger writing `compose-cat: <msg> key=value` lines, or JSON lines, for messages at `level`
+ * (default: info) and above. Values of keys matching `redactPatterns` are replaced first.
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const redactPattern = toRedactPattern(options.redactPatterns ?? DEFAULT_REDACT_PATTERNS);
+  const write = options.sink ?? ((line: string) => process.stderr.write(`${line}\n`));
+  const logger: Logger = {
+    level: options.level ?? 'info',
+    format: options.format ?? 'text',
+    error: (msg, fields) => emit('error', msg, fields),
+    warn: (msg, fields) => emit('warn', msg, fields),
+    info: (msg, fields) => emit('info', msg, fields),
+    debug: (msg, fields) => emit('debug', msg, fields),
+  };
+  const emit = (target: LogLevel, msg: string, fields?: LogFields) => {
+    if (!isLogLevelEnabled(logger, target)) return;
+    const safe = (fields ? redactWith(fields, redactPattern) : {}) as LogFields;
+    if (logger.format === 'json') {
+      write(JSON.stringify({ time: new Date().toISOString(), level: target, msg, ...safe }));
+      return;
+    }
+    const extra = Object.entries(safe)
+      .map(([k, v]) => `${k}=${formatField(v)}`)
+      .join(' ');
+    write(`compose-cat: ${msg}${extra ? ` ${extra}` : ''}`);
+  };
+  return logger;
+}
+
+// What the API logs to unless it is given a logger: nothing.
+export const silentLogger = createLogger({ level: 'silent' });
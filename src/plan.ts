@@ -0,0 +1,109 @@
+import { ComposeInfo } from './compose-info.js';
+import { formatCommand } from './exec.js';
+
+export type PlanFormat = 'text' | 'json';
+
+export const PLAN_FORMATS: PlanFormat[] = ['text', 'json'];
+
+export type BinProbe = {
+  candidate: string;
+  available: boolean;
+  exitCode: number | null;
+  error?: string;
+  // Whether the result came from the probe cache.
+  cached?: boolean;
+} & Partial<ComposeInfo>;
+
+export type PlannedHook = {
+  stage: 'pre' | 'post' | 'task';
+  // Hook name from --cmp-hook, or the task of a hook step; undefined for global hooks.
+  name?: string;
+  file: string;
+  platform?: string;
+  binary?: string;
+  command: string;
+  timeoutMs?: number;
+  continueOnError?: boolean;
+  always?: boolean;
+};
+
+export type PlanStep =
+  | ({ type: 'hook' } & PlannedHook)
+  | { type: 'compose'; bin: string[]; args: string[]; command: string; continueOnError?: boolean }
+  | { type: 'shell'; command: string; continueOnError?: boolean };
+
+/**
+ * Everything a run would do, resolved up front. Produced by --cmp-dry-run instead of executing.
+ */
+export type RunPlan = {
+  command: string;
+  cwd: string;
+  configFile?: string;
+  // argv of the selected compose binary.
+  composeBin: string[];
+  binProbes: BinProbe[];
+  // Selected profiles with the ones they extend, and those of them passed to compose.
+  profiles: string[];
+  composeProfiles: string[];
+  envFiles: string[];
+  // Env providers among `envFiles`; a dry run does not run them.
+  envProviders: string[];
+  // Compose files added as -f flags; empty when compose's own file discovery applies.
+  composeFiles: string[];
+  hookNames: string[];
+  steps: PlanStep[];
+};
+
+export function formatPlan(plan: RunPlan, format: PlanFormat): string {
+  if (format === 'json') return JSON.stringify(plan, null, 2);
+
+  const lines: string[] = [];
+  lines.push(`compose-cat dry run: ${plan.command} (nothing was executed)`);
+  lines.push(`cwd: ${plan.cwd}`);
+  lines.push(`config file: ${plan.configFile ?? '(none)'}`);
+  lines.push(`compose binary: ${formatCommand({ bin: plan.composeBin, args: [] })}`);
+  for (const probe of plan.binProbes) {
+    const status = probe.available ? 'ok' : 'unavailable';
+    const detail = [
+      probe.error ?? `exit ${probe.exitCode ?? 'none'}`,
+      probe.flavour && [probe.flavour, probe.version].filter(Boolean).join(' '),
+      probe.cached && 'cached',
+    ]
+      .filter(Boolean)
+      .join(', ');
+    lines.push(`  probe "${probe.candidate}": ${status} (${detail})`);
+  }
+  lines.push(`profiles: ${plan.profiles.length > 0 ? plan.profiles.join(', ') : '(none)'}`);
+  if (plan.composeProfiles.length < plan.profiles.length) {
+    const passed = plan.composeProfiles.join(', ') || '(none)';
+    lines.push(`  compose profiles (extended ones only contribute env): ${passed}`);
+  }
+  lines.push('env files (later files override earlier ones):');
+  if (plan.envFiles.length === 0) lines.push('  (none)');
+  plan.envFiles.forEach((f, i) => {
+    const note = plan.envProviders.includes(f) ? ' (env provider, would run)' : '';
+    lines.push(`  ${i + 1}. ${f}${note}`);
+  });
+  if (plan.composeFiles.length > 0) {
+    lines.push('compose files (-f, in order):');
+    plan.composeFiles.forEach((f, i) => lines.push(`  ${i + 1}. ${f}`));
+  }
+  lines.push(`hook names: ${plan.hookNames.length > 0 ? plan.hookNames.join(', ') : '(none)'}`);
+  lines.push('steps:');
+  plan.steps.forEach((step, i) => {
+    if (step.type === 'hook') {
+      const label = `${step.stage}${step.name ? ` ${step.name}` : ''}`;
+      const flags = [
+        step.timeoutMs !== undefined ? `timeout ${step.timeoutMs}ms` : undefined,
+        step.continueOnError ? 'continue-on-error' : undefined,
+        step.always ? 'always' : undefined,
+      ].filter(Boolean);
+      const suffix = flags.length > 0 ? ` (${flags.join(', ')})` : '';
+      lines.push(`  ${i + 1}. [hook ${label}] ${step.command}${suffix}`);
+    } else {
+      const suffix = step.continueOnError ? ' (continue-on-error)' : '';
+      lines.push(`  ${i + 1}. [${step.type}] ${step.command}${suffix}`);
+    }
+  });
+  return lines.join('\n');
+}
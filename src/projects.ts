@@ -0,0 +1,175 @@
+import { readdirSync, statSync } from 'node:fs';
+import path from 'node:path';
+import { globToRegExp } from './env-report.js';
+
+/**
+ * A project of `cmp-each`: a directory relative to the cwd, optionally with a name (default: the
+ * directory) and the projects that must succeed before it starts. A plain string is a directory or
+ * a glob such as `services/*`.
+ */
+export type ProjectDefinition = {
+  dir: string;
+  name?: string;
+  dependsOn?: string[];
+};
+
+export type ProjectEntry = string | ProjectDefinition;
+
+export type Project = {
+  name: string;
+  dir: string; // absolute path
+  dependsOn: string[];
+};
+
+const PROJECT_KEYS = ['dir', 'name', 'dependsOn'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+function validateEntry(raw: unknown, where: string, errors: string[]): ProjectEntry | undefined {
+  if (typeof raw === 'string') {
+    if (raw.trim() !== '') return raw;
+    errors.push(`${where}: must not be empty`);
+    return undefined;
+  }
+  if (!isPlainObject(raw)) {
+    errors.push(`${where}: must be a directory or an object with "dir"`);
+    return undefined;
+  }
+  for (const key of Object.keys(raw).filter((k) => !PROJECT_KEYS.includes(k))) {
+    errors.push(`${where}: unknown key "${key}"`);
+  }
+  const { dir, name, dependsOn } = raw;
+  const count = errors.length;
+  if (typeof dir !== 'string' || dir.trim() === '') {
+    errors.push(`${where}: "dir" must be a non-empty string`);
+  }
+  if (name !== undefined && (typeof name !== 'string' || name.trim() === '')) {
+    errors.push(`${where}: "name" must be a non-empty string`);
+  }
+  if (dependsOn !== undefined && !isStringArray(dependsOn)) {
+    errors.push(`${where}: "dependsOn" must be an array of project names`);
+  }
+  if (errors.length > count) return undefined;
+  return {
+    dir: dir as string,
+    ...(name !== undefined ? { name: name as string } : {}),
+    ...(dependsOn !== undefined ? { dependsOn: dependsOn as string[] } : {}),
+  };
+}
+
+/**
+ * Check the `projects` config section. Names and dependencies are only checked once the globs have
+ * been expanded, see `resolveProjects`.
+ */
+export function validateProjects(
+  raw: unknown,
+  source: string,
+): { projects: ProjectEntry[]; errors: string[] } {
+  if (!Array.isArray(raw)) {
+    return { projects: [], errors: [`${source}: "projects" must be an array`] };
+  }
+  const errors: string[] = [];
+  const projects = raw.flatMap(
+    (entry, i) => validateEntry(entry, `${source}: projects[${i}]`, errors) ?? [],
+  );
+  return { projects, errors };
+}
+
+const isDirectory = (dir: string) =>
+  statSync(dir, { throwIfNoEntry: false })?.isDirectory() ?? false;
+
+// Expand `*` and `?` one path segment at a time. Hidden directories only match a segment that
+// starts with a dot itself.
+function expandDirGlob(pattern: string, cwd: string): string[] {
+  const root = path.isAbsolute(pattern) ? path.parse(pattern).root : '';
+  let dirs = [root || path.resolve(cwd)];
+  for (const segment of pattern
+    .slice(root.length)
+    .split(/[\\/]+/)
+    .filter(Boolean)) {
+    if (!/[*?]/.test(segment)) {
+      dirs = dirs.map((dir) => path.join(dir, segment));
+      continue;
+    }
+    const matcher = globToRegExp(segment);
+    dirs = dirs.flatMap((dir) => {
+      let names: string[];
+      try {
+        names = readdirSync(dir).sort();
+      } catch {
+        return [];
+      }
+      return names
+        .filter((n) => matcher.test(n) && (segment.startsWith('.') || !n.startsWith('.')))
+        .map((n) => path.join(dir, n));
+    });
+  }
+  return dirs.filter(isDirectory);
+}
+
+/**
+ * Expand the entries into projects in declaration order. A directory matched by a glob and listed
+ * again as an object keeps its position and takes the name and dependencies of the object. Missing
+ * directories, duplicate names, unknown dependencies and dependency cycles are errors.
+ */
+export function resolveProjects(
+  entries: ProjectEntry[],
+  cwd: string,
+): { projects: Project[]; errors: string[] } {
+  const errors: string[] = [];
+  const byDir = new Map<string, Project>();
+  for (const entry of entries) {
+    const def = typeof entry === 'string' ? { dir: entry } : entry;
+    const dirs = expandDirGlob(def.dir, cwd);
+    if (dirs.length === 0) {
+      errors.push(
+        /[*?]/.test(def.dir)
+          ? `project glob "${def.dir}" matches no directory`
+          : `project directory "${def.dir}" not found`,
+      );
+      continue;
+    }
+    if (typeof entry !== 'string' && entry.name && dirs.length > 1) {
+      errors.push(`project "${entry.name}": "${def.dir}" matches several directories`);
+      continue;
+    }
+    for (const dir of dirs) {
+      const existing = byDir.get(dir);
+      if (existing && typeof entry === 'string') continue;
+      byDir.set(dir, {
+        name: def.name ?? (path.relative(cwd, dir).split(path.sep).join('/') || '.'),
+        dir,
+        dependsOn: def.dependsOn ?? [],
+      });
+    }
+  }
+
+  const projects = [...byDir.values()];
+  const names = new Set<string>();
+  for (const p of projects) {
+    if (names.has(p.name)) errors.push(`project name "${p.name}" is used twice`);
+    names.add(p.name);
+    for (const dep of p.dependsOn.filter((d) => !projects.some((o) => o.name === d))) {
+      errors.push(`project "${p.name}" depends on unknown project "${dep}"`);
+    }
+  }
+  const visit = (name: string, chain: string[]): boolean => {
+    // A cycle that does not pass through the start is reported when its own projects are visited.
+    if (chain.includes(name)) {
+      if (name === chain[0]) {
+        errors.push(`project "${name}" depends on itself (${[...chain, name].join(' -> ')})`);
+      }
+      return false;
+    }
+    const deps = projects.find((p) => p.name === name)?.dependsOn ?? [];
+    return deps.every((dep) => visit(dep, [...chain, name]));
+  };
+  for (const p of projects) visit(p.name, []);
+  return { projects, errors };
+}
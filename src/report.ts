@@ -0,0 +1,153 @@
+import path from 'node:path';
+import { HookEvent, HookStatus } from './hooks.js';
+
+export type ReportFormat = 'json' | 'junit';
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'junit'];
+
+export const RUN_REPORT_VERSION = 1;
+
+export type ReportStep = {
+  type: 'hook' | 'compose' | 'shell';
+  command: string;
+  cwd: string;
+  status: HookStatus;
+  // ISO timestamps; steps that never started have none.
+  startedAt?: string;
+  endedAt?: string;
+  durationMs: number;
+  exitCode?: number;
+  // Signal that ended the process instead of an exit of its own.
+  signal?: string;
+  // Why a step was skipped, or "continue-on-error" for an ignored failure.
+  note?: string;
+  // Hooks only.
+  stage?: HookEvent;
+  file?: string;
+};
+
+/**
+ * What `--cmp-report` writes after a run: the outcome of every step and what the run resolved.
+ * Also written when the run could not start or threw (`errors`) or was interrupted (`signal`).
+ */
+export type RunReport = {
+  version: number;
+  // The compose args of the run, or the task and its compose options.
+  command: string;
+  task?: string;
+  cwd: string;
+  status: 'ok' | 'failed' | 'interrupted';
+  exitCode: number;
+  signal?: string;
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+  profiles: string[];
+  envFiles: string[];
+  // The selected compose binary, e.g. "docker compose"; unknown when the run could not start.
+  composeBin?: string;
+  errors: string[];
+  steps: ReportStep[];
+};
+
+// json unless the file name ends in .xml.
+export function reportFormatFor(file: string): ReportFormat {
+  return path.extname(file).toLowerCase() === '.xml' ? 'junit' : 'json';
+}
+
+const xmlEscape = (s: string) =>
+  s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines are not allowed in XML 1.0.
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+const attributes = (values: Record<string, string | number | undefined>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${xmlEscape(String(value))}"`)
+    .join('');
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+function stepOutcome(step: ReportStep): string {
+  if (step.status === 'interrupted') return `interrupted${step.signal ? ` (${step.signal})` : ''}`;
+  if (step.status === 'timeout') return `timed out (exit code ${step.exitCode})`;
+  return step.signal ? `killed by ${step.signal}` : `exit code ${step.exitCode}`;
+}
+
+// One testcase per step: hooks are grouped by stage, compose and shell steps by type. Failures
+// that may continue pass, with the failure in system-err.
+function junitTestcase(step: ReportStep, cwd: string): string[] {
+  const classname = `compose-cat.${step.type === 'hook' ? step.stage : step.type}`;
+  const name = step.file ? path.relative(cwd, step.file) : step.command;
+  const open = `    <testcase${attributes({ classname, name, time: seconds(step.durationMs) })}`;
+  const details = [`command: ${step.command}`, `cwd: ${step.cwd}`];
+  if (step.startedAt) details.push(`started: ${step.startedAt}`, `ended: ${step.endedAt}`);
+  const body = xmlEscape(details.join('\n'));
+  if (step.status === 'skipped') {
+    return [`${open}>`, `      <skipped${attributes({ message: step.note })}/>`, '    </testcase>'];
+  }
+  if (step.status === 'ok') return [`${open}/>`];
+  if (step.note === 'continue-on-error') {
+    const message = `${stepOutcome(step)}, ignored (continue-on-error)`;
+    return [`${open}>`, `      <system-err>${xmlEscape(message)}</system-err>`, '    </testcase>'];
+  }
+  return [
+    `${open}>`,
+    `      <failure${attributes({ message: stepOutcome(step), type: step.status })}>${body}</failure>`,
+    '    </testcase>',
+  ];
+}
+
+/** Render a run report as pretty JSON, or as JUnit XML for CI test report viewers. */
+export function formatRunReport(report: RunReport, format: ReportFormat): string {
+  if (format === 'json') return `${JSON.stringify(report, null, 2)}\n`;
+
+  const { steps, errors } = report;
+  const failures = steps.filter(
+    (s) => s.status !== 'ok' && s.status !== 'skipped' && s.note !== 'continue-on-error',
+  ).length;
+  const counts = {
+    tests: steps.length + (errors.length > 0 ? 1 : 0),
+    failures,
+    errors: errors.length > 0 ? 1 : 0,
+    skipped: steps.filter((s) => s.status === 'skipped').length,
+    time: seconds(report.durationMs),
+    timestamp: report.startedAt,
+  };
+  const name = `compose-cat ${report.command}`.trim();
+  const properties: [string, string | undefined][] = [
+    ['cwd', report.cwd],
+    ['status', report.status],
+    ['exitCode', String(report.exitCode)],
+    ['signal', report.signal],
+    ['profiles', report.profiles.join(',')],
+    ...report.envFiles.map((file): [string, string] => ['envFile', file]),
+    ['composeBin', report.composeBin],
+  ];
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites${attributes({ name: 'compose-cat', ...counts })}>`,
+    `  <testsuite${attributes({ name, ...counts })}>`,
+    '    <properties>',
+    ...properties
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `      <property${attributes({ name: key, value })}/>`),
+    '    </properties>',
+  ];
+  // A run that could not start has no steps; its errors become one erroring testcase.
+  if (errors.length > 0) {
+    const message = errors[0];
+    lines.push(
+      `    <testcase${attributes({ classname: 'compose-cat', name: 'run', time: '0.000' })}>`,
+      `      <error${attributes({ message })}>${xmlEscape(errors.join('\n'))}</error>`,
+      '    </testcase>',
+    );
+  }
+  for (const step of steps) lines.push(...junitTestcase(step, report.cwd));
+  lines.push('  </testsuite>', '</testsuites>', '');
+  return lines.join('\n');
+}
@@ -0,0 +1,917 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { ComposeInfo, probeCacheFile } from './compose-info.js';
+import {
+  adaptComposeFlags,
+  buildComposeArgs,
+  ComposeBinCandidate,
+  composeCommand,
+  DEFAULT_COMPOSE_BINS,
+  downInvocation,
+  probeComposeBin,
+  resolveComposeBinary,
+} from './compose.js';
+import {
+  composeFileCandidates,
+  detectComposeFiles,
+  hasExplicitComposeFile,
+  readComposeServices,
+} from './compose-files.js';
+import {
+  GeneratedEnvFile,
+  planGeneratedEnvFiles,
+  removeGeneratedEnvFiles,
+  writeGeneratedEnvFiles,
+} from './env-providers.js';
+import { COMPOSE_CAT_SOURCE, maskSecretEnv, recordEnvSources } from './env-report.js';
+import {
+  applyProfileEnvVariables,
+  ComposeCatOptions,
+  ResolvedEnvironment,
+  resolveEnvironment,
+  resolveOptions,
+} from './environment.js';
+import {
+  captureCommand,
+  createInterrupts,
+  DEFAULT_GRACE_PERIOD_MS,
+  Interrupts,
+  parseDuration,
+  signalExitCode,
+  spawnCommand,
+} from './exec.js';
+import { collectHookEnv, createHookEnvFile } from './hook-env.js';
+import {
+  discoverHooks,
+  hookCommand,
+  hookCommandLine,
+  HookDef,
+  HookFilter,
+  hookFilterReason,
+  HookResult,
+  HookStage,
+  taskHook,
+} from './hooks.js';
+import {
+  buildLock,
+  configInvocation,
+  diffLock,
+  formatLockFile,
+  LOCK_FILE_NAME,
+  LockFile,
+  readLockFile,
+} from './lock.js';
+import { Logger, silentLogger } from './logger.js';
+import { BinProbe, PlanStep, RunPlan } from './plan.js';
+import {
+  formatRunReport,
+  ReportFormat,
+  reportFormatFor,
+  RunReport,
+  RUN_REPORT_VERSION,
+} from './report.js';
+import { describeTasks, expandTask, TaskInfo } from './tasks.js';
+
+type StringMap = Record<string, string>;
+
+export type RunOptions = ComposeCatOptions & {
+  // Compose subcommand and options passed through after the generated flags. With a task they are
+  // the compose options every compose step of the task starts with.
+  composeArgs?: string[];
+  // Run the steps of a task (built-in such as cmp-clean, or from `tasks` in the config file) instead
+  // of a single compose invocation.
+  task?: string;
+  skipHooks?: boolean;
+  // Globs matched against hook file names and paths relative to the cwd.
+  onlyHooks?: string[];
+  // Forwarded to the running hook or compose command; see `interrupt()`.
+  interrupts?: Interrupts;
+  // Fail before any hook runs when the resolution differs from the lock file (see `writeLockFile`).
+  frozen?: boolean;
+  // Write a report of the run to this file (relative to the cwd) once it ends, whatever the outcome.
+  report?: string;
+  // Default: junit for a `.xml` report file, json otherwise.
+  reportFormat?: ReportFormat;
+  // Where compose probes are cached (default: see `probeCacheFile`); false disables the cache.
+  probeCache?: string | false;
+};
+
+export type CommandResult = {
+  command: string;
+  status: 'ok' | 'failed' | 'interrupted' | 'skipped';
+  exitCode?: number;
+  // The signal that ended the command, when it did not exit by itself.
+  signal?: string;
+  durationMs: number;
+  // ISO timestamps of a command that ran.
+  startedAt?: string;
+  endedAt?: string;
+  // "continue-on-error" for an ignored failure of a task step.
+  note?: string;
+};
+
+export type ComposeResult = CommandResult & { args: string[] };
+
+export type StepResult =
+  | ({ type: 'hook' } & HookResult)
+  | ({ type: 'compose' } & ComposeResult)
+  | ({ type: 'shell' } & CommandResult);
+
+/**
+ * A step between the pre and post hooks: the compose invocation of a plain run, or a compose, hook
+ * or shell step of a task. Compose args already include the generated flags.
+ */
+export type PreparedStep =
+  | { type: 'compose'; args: string[]; continueOnError: boolean }
+  | { type: 'hook'; hook: HookDef }
+  | { type: 'shell'; command: string; continueOnError: boolean };
+
+export type RunResult = {
+  exitCode: number;
+  steps: StepResult[];
+  // Set when the run could not start, e.g. for config errors or env schema violations.
+  errors: string[];
+};
+
+/**
+ * Everything a run needs, resolved up front: the environment, the compose binary, the steps,
+ * the hooks of each stage and the environment compose is started with.
+ */
+export type PreparedRun = {
+  environment: ResolvedEnvironment;
+  // argv of the compose binary, e.g. ['docker', 'compose'].
+  composeBin: string[];
+  composeInfo: ComposeInfo;
+  binCandidates: ComposeBinCandidate[];
+  // Spawn hooks and compose through the shell instead of directly.
+  shell: boolean;
+  composeFiles: string[];
+  // The generated flags and the compose args of the run; compose steps of a task append their own.
+  baseArgs: string[];
+  task?: string;
+  steps: PreparedStep[];
+  // Whether the post hooks still run normally after a failed compose invocation.
+  postHooksAfterComposeFailure: boolean;
+  // Run `down` after an interrupted foreground `up`.
+  downOnExit: boolean;
+  gracePeriodMs: number;
+  hookNames: string[];
+  hookSets: Record<HookStage, HookDef[]>;
+  hookFilter: HookFilter;
+  // process.env for compose: the base env plus COMPOSE_*, decrypted and ComposeCat variables.
+  composeEnv: StringMap;
+  // Temp env files holding what the env providers printed; they only exist while the run executes.
+  generatedEnvFiles: GeneratedEnvFile[];
+  // Compare the resolution with the lock file before anything runs.
+  frozen: boolean;
+  probeCacheFile?: string;
+  logger: Logger;
+};
+
+// Resolve the env variable name with the current prefix so we do not have to repeat interpolation
+// logic everywhere.
+function envKey(
+  prefix: string,
+  key:
+    | 'COMPOSE_BIN'
+    | 'DETECTED_COMPOSE_BIN'
+    | 'DETECTED_COMPOSE_FLAVOUR'
+    | 'DETECTED_COMPOSE_VERSION'
+    | 'HOOK_EVENT'
+    | 'HOOK_COMMAND'
+    | 'HOOK_PLATFORM'
+    | 'HOOK_BINARY'
+    | 'HOOK_FILE'
+    | 'HOOK_ENV_OUT'
+    | 'HOOK_EXIT_REASON',
+) {
+  return `${prefix}${key}`;
+}
+
+function parseCsv(value?: string): string[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+// Compose binaries to try in order: options > env/dotenv > config file > defaults.
+export function composeBinCandidates(
+  options: RunOptions,
+  environment: ResolvedEnvironment,
+): ComposeBinCandidate[] {
+  const { config, mergedEnv, prefix } = environment;
+  const envBins = parseCsv(mergedEnv[envKey(prefix, 'COMPOSE_BIN')]);
+  return (
+    [options.cmpBin ?? [], envBins, config.cmpBin ?? []].find((bins) => bins.length > 0) ??
+    DEFAULT_COMPOSE_BINS
+  );
+}
+
+/**
+ * Discover the hooks of every stage in execution order: global pre hooks, named pre hooks, then
+ * named post hooks and global post hooks. With several lookup directories (outermost first) the
+ * pre hooks of outer directories run first and their post hooks last.
+ */
+function resolveHooks(names: string[], dirs: string[], hooksDir: string | undefined, log: Logger) {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const discover = (stage: HookStage, stageDirs: string[], stageNames: (string | undefined)[]) =>
+    stageDirs.flatMap((cwd) =>
+      stageNames.flatMap((name) => {
+        const discovered = discoverHooks(stage, name, { cwd, hooksDir });
+        errors.push(...discovered.errors);
+        // An absolute hooks directory is the same one at every level.
+        return discovered.hooks.filter((h) => !seen.has(h.file) && seen.add(h.file));
+      }),
+    );
+  const hookSets: Record<HookStage, HookDef[]> = {
+    pre: discover('pre', dirs, [undefined, ...names]),
+    post: discover('post', [...dirs].reverse(), [...names, undefined]),
+  };
+  for (const hook of [...hookSets.pre, ...hookSets.post]) {
+    log.info('discovered hook', { stage: hook.stage, file: hook.file });
+  }
+  return { hookSets, errors };
+}
+
+/**
+ * Central orchestration step: resolve env files, profiles, compose binary, hooks and compose
+ * arguments so plain runs, cmp-clean* commands and dry runs behave consistently. Nothing is
+ * executed apart from the `<bin> version` probes.
+ */
+export function prepareRun(options: RunOptions = {}): {
+  prepared?: PreparedRun;
+  errors: string[];
+} {
+  const log = options.logger ?? silentLogger;
+  const environment = resolveEnvironment(options);
+  if (environment.errors.length > 0) return { errors: environment.errors };
+  const { cwd, dirs, env, config, envFiles, mergedEnv, profiles, prefix, secretKeys } = environment;
+  const { composeProfiles } = environment;
+
+  // Broken env values would otherwise only surface inside a container; stop before any hook runs.
+  // Without the output of skipped env providers, violations may be false alarms.
+  const violations = environment.schemaViolations.map((v) => `env schema violation: ${v}`);
+  if (violations.length > 0 && environment.skippedEnvProviders.length === 0) {
+    return { errors: violations };
+  }
+  for (const violation of violations) log.warn(`${violation} (env providers were skipped)`);
+
+  const task = options.task
+    ? { name: options.task, ...expandTask(options.task, environment.tasks) }
+    : undefined;
+  if (task && task.errors.length > 0) return { errors: task.errors };
+
+  const binCandidates = composeBinCandidates(options, environment);
+  const shell = options.shell ?? config.shell ?? false;
+  const cacheFile = probeCacheFile(env, options.probeCache);
+  const { composeBin, composeInfo, binProbes } = resolveComposeBinary(binCandidates, {
+    cwd,
+    env,
+    shell,
+    cacheFile,
+    logger: log,
+  });
+  if (!composeBin || !composeInfo) {
+    const tried = binProbes.map((p) => p.candidate).join(' | ');
+    return { errors: [`no compose binary detected (tried: ${tried})`] };
+  }
+
+  const hookNames = options.cmpHook ?? config.cmpHook ?? [];
+  const { hookSets, errors: hookErrors } = resolveHooks(
+    hookNames,
+    dirs,
+    options.hooksDir ?? config.hooksDir,
+    log,
+  );
+  if (hookErrors.length > 0) return { errors: hookErrors };
+
+  const gracePeriod = options.gracePeriod ?? config.gracePeriod;
+  const gracePeriodMs =
+    gracePeriod === undefined ? DEFAULT_GRACE_PERIOD_MS : parseDuration(gracePeriod);
+  if (gracePeriodMs === undefined) return { errors: [`invalid grace period "${gracePeriod}"`] };
+
+  // Layer profile specific compose files unless the user already chose the files explicitly.
+  const composeArgs = options.composeArgs ?? [];
+  const composeFiles =
+    (options.disableProfileBasedComposeFiles ?? config.disableProfileBasedComposeFiles) ||
+    mergedEnv.COMPOSE_FILE ||
+    hasExplicitComposeFile(composeArgs)
+      ? []
+      : detectComposeFiles(cwd, composeProfiles);
+  for (const f of composeFiles) {
+    log.info('layering compose file', { file: f });
+  }
+
+  log.info('detected compose binary', {
+    bin: composeCommand(composeBin, [], shell),
+    flavour: composeInfo.flavour,
+    version: composeInfo.version,
+  });
+  // Compose cannot run the providers, so it gets their output as env files in their place. Skipped
+  // providers get theirs too, empty, so a dry run shows the args of a real run.
+  const { generatedEnv, skippedEnvProviders } = environment;
+  const generatedEnvFiles = planGeneratedEnvFiles(
+    Object.fromEntries(
+      envFiles
+        .filter((f) => f in generatedEnv || skippedEnvProviders.includes(f))
+        .map((f) => [f, generatedEnv[f] ?? {}]),
+    ),
+  );
+  const composeEnvFiles = envFiles.map(
+    (f) => generatedEnvFiles.find((g) => g.provider === f)?.file ?? f,
+  );
+  const flags = adaptComposeFlags(composeInfo.capabilities, composeEnvFiles, composeProfiles);
+  for (const warning of flags.warnings) {
+    log.warn(warning, { flavour: composeInfo.flavour, version: composeInfo.version });
+  }
+  const args = buildComposeArgs(
+    flags.envFiles,
+    mergedEnv,
+    flags.profiles,
+    composeArgs,
+    composeFiles,
+  );
+  const taskErrors: string[] = [];
+  const steps: PreparedStep[] = task
+    ? task.steps.flatMap((step): PreparedStep[] => {
+        const continueOnError = step.continueOnError ?? false;
+        if ('compose' in step) {
+          return [{ type: 'compose', args: [...args, ...step.compose], continueOnError }];
+        }
+        if ('shell' in step) return [{ type: 'shell', command: step.shell, continueOnError }];
+        const hook = taskHook(task.name, step.hook, cwd, taskErrors);
+        if (hook && continueOnError) hook.options.continueOnError = true;
+        return hook ? [{ type: 'hook', hook }] : [];
+      })
+    : [{ type: 'compose', args, continueOnError: false }];
+  if (taskErrors.length > 0) return { errors: taskErrors };
+
+  // What was detected is visible to hooks and compose alike.
+  const detected: StringMap = {
+    [envKey(prefix, 'DETECTED_COMPOSE_BIN')]: composeCommand(composeBin, [], shell),
+    [envKey(prefix, 'DETECTED_COMPOSE_FLAVOUR')]: composeInfo.flavour,
+    [envKey(prefix, 'DETECTED_COMPOSE_VERSION')]: composeInfo.version ?? '',
+  };
+  Object.assign(mergedEnv, detected);
+  recordEnvSources(environment.provenance, detected, COMPOSE_CAT_SOURCE);
+
+  // Predefine COMPOSE_ variables for consistency. Decrypted values are exported as well because
+  // compose never sees the encrypted files themselves, and so is everything else when compose
+  // cannot be given every env file.
+  const composeEnv = JSON.parse(JSON.stringify(env)) as StringMap;
+  for (const key in mergedEnv) {
+    if (flags.passEnv || key.startsWith('COMPOSE_') || secretKeys.includes(key)) {
+      composeEnv[key] = mergedEnv[key];
+    }
+  }
+  if (flags.profiles.length < composeProfiles.length) {
+    composeEnv.COMPOSE_PROFILES = composeProfiles.join(',');
+  }
+  applyProfileEnvVariables(composeEnv, profiles, prefix);
+  Object.assign(composeEnv, detected);
+
+  // Values decrypted from `.enc` files must never show up in the output, whatever their key name.
+  log.debug('merged environment', { env: maskSecretEnv(mergedEnv, secretEnv(environment)) });
+
+  return {
+    prepared: {
+      environment,
+      composeBin,
+      composeInfo,
+      binCandidates,
+      shell,
+      composeFiles,
+      baseArgs: args,
+      task: options.task,
+      steps,
+      // A failed task step skips the remaining steps and post hooks.
+      postHooksAfterComposeFailure: !options.task,
+      downOnExit: options.downOnExit ?? config.downOnExit ?? false,
+      gracePeriodMs,
+      hookNames,
+      hookSets,
+      hookFilter: { skipAll: options.skipHooks, only: options.onlyHooks },
+      composeEnv,
+      generatedEnvFiles,
+      frozen: options.frozen ?? false,
+      probeCacheFile: cacheFile,
+      logger: log,
+    },
+    errors: [],
+  };
+}
+
+function planHooks(hooks: HookDef[], prepared: PreparedRun): PlanStep[] {
+  const { hookFilter, shell } = prepared;
+  return hooks
+    .filter((h) => !hookFilterReason(h, hookFilter, prepared.environment.cwd))
+    .map((h) => ({
+      type: 'hook' as const,
+      stage: h.stage,
+      name: h.additionalHookName,
+      file: h.file,
+      platform: h.platform,
+      binary: h.binary,
+      command: hookCommand(h, shell),
+      ...h.options,
+    }));
+}
+
+/**
+ * Resolve every hook and compose invocation a command would run, in execution order, without
+ * spawning any of them. All bin candidates are probed so the plan shows why each one was or was
+ * not picked.
+ */
+export function buildPlan(command: string, prepared: PreparedRun): RunPlan {
+  const { composeBin, binCandidates, shell, composeFiles, hookNames, hookSets } = prepared;
+  const { cwd, env, configFile, profiles, composeProfiles, envFiles } = prepared.environment;
+  const cacheFile = prepared.probeCacheFile;
+  const binProbes: BinProbe[] = binCandidates.map((c) =>
+    probeComposeBin(c, { cwd, env, shell, cacheFile, logger: prepared.logger }),
+  );
+  return {
+    command,
+    cwd,
+    configFile,
+    composeBin,
+    binProbes,
+    profiles,
+    composeProfiles,
+    envFiles,
+    envProviders: prepared.environment.skippedEnvProviders,
+    composeFiles,
+    hookNames,
+    steps: [
+      ...planHooks(hookSets.pre, prepared),
+      ...prepared.steps.flatMap((step): PlanStep[] => {
+        const continueOnError = step.type !== 'hook' && step.continueOnError ? true : undefined;
+        if (step.type === 'hook') return planHooks([step.hook], prepared);
+        if (step.type === 'shell')
+          return [{ type: 'shell', command: step.command, continueOnError }];
+        const command = composeCommand(composeBin, step.args, shell);
+        return [{ type: 'compose', bin: composeBin, args: step.args, command, continueOnError }];
+      }),
+      ...planHooks(hookSets.post, prepared),
+    ],
+  };
+}
+
+/**
+ * Like `run()` but only returns the plan. `command` labels the plan (e.g. the CLI command name).
+ * Env providers are not run either, only listed.
+ */
+export function planRun(
+  options: RunOptions = {},
+  command = options.task ?? 'compose-cat',
+): { plan?: RunPlan; errors: string[] } {
+  const { prepared, errors } = prepareRun({ ...options, skipEnvProviders: true });
+  if (!prepared) return { errors };
+  return { plan: buildPlan(command, prepared), errors: [] };
+}
+
+/**
+ * The tasks a run can be given: the built-in cmp-clean* tasks and those from the config file.
+ */
+export function listTasks(options: ComposeCatOptions = {}): {
+  tasks: TaskInfo[];
+  errors: string[];
+} {
+  const resolved = resolveOptions(options);
+  if (resolved.errors.length > 0) return { tasks: [], errors: resolved.errors };
+  return { tasks: describeTasks(resolved.tasks), errors: [] };
+}
+
+// Exposed to post hooks as HOOK_EXIT_REASON.
+type ExitReason = 'success' | 'failure' | 'signal';
+
+// State shared by every hook and compose step of one run. Once a step fails, the remaining hooks
+// are skipped unless they are marked `always`. An interruption skips the remaining pre hooks and
+// steps but still runs the post hooks; a second one skips them too.
+type RunState = {
+  failed: boolean;
+  exitCode: number;
+  steps: StepResult[];
+  interrupts: Interrupts;
+  exitReason?: ExitReason;
+};
+
+function markFailed(state: RunState, code: number) {
+  if (!state.failed) state.exitCode = code;
+  state.failed = true;
+}
+
+function skipAfterInterrupt(h: HookDef, state: RunState): string | undefined {
+  const { signal, count } = state.interrupts;
+  if (!signal) return undefined;
+  if (h.stage !== 'post' || (count > 1 && !h.options.always)) return `interrupted (${signal})`;
+  return undefined;
+}
+
+// The decrypted values of the environment, by key.
+function secretEnv(environment: ResolvedEnvironment): StringMap {
+  const { mergedEnv, secretKeys } = environment;
+  return Object.fromEntries(secretKeys.map((key) => [key, mergedEnv[key]]));
+}
+
+function mergeHookEnv(h: HookDef, exported: StringMap, prepared: PreparedRun) {
+  const keys = Object.keys(exported);
+  if (keys.length === 0) return;
+  // Before the merge, which may replace a decrypted value.
+  const secrets = secretEnv(prepared.environment);
+  Object.assign(prepared.environment.mergedEnv, exported);
+  Object.assign(prepared.composeEnv, exported);
+  recordEnvSources(prepared.environment.provenance, exported, `hook ${h.file}`);
+  const log = prepared.logger;
+  log.info('hook exported variables', { file: h.file, keys });
+  log.debug('hook exported values', { file: h.file, env: maskSecretEnv(exported, secrets) });
+}
+
+// When a hook or command that ran started and ended, and the signal that ended it if any.
+function recordTiming(result: StepResult, startedAt: Date, signal?: NodeJS.Signals) {
+  const endedAt = new Date();
+  result.startedAt = startedAt.toISOString();
+  result.endedAt = endedAt.toISOString();
+  result.durationMs = endedAt.getTime() - startedAt.getTime();
+  if (signal) result.signal = signal;
+}
+
+// Execute hooks sequentially, recording the outcome of each one. Variables a hook writes to its
+// HOOK_ENV_OUT file are merged into the environment of later hooks and compose.
+async function runHooks(hooks: HookDef[], prepared: PreparedRun, state: RunState) {
+  const { cwd, mergedEnv, prefix } = prepared.environment;
+  for (const h of hooks) {
+    const result: StepResult = {
+      type: 'hook',
+      stage: h.stage,
+      name: h.additionalHookName,
+      file: h.file,
+      command: hookCommand(h, prepared.shell),
+      status: 'skipped',
+      durationMs: 0,
+    };
+    state.steps.push(result);
+    const skipReason =
+      hookFilterReason(h, prepared.hookFilter, cwd) ??
+      skipAfterInterrupt(h, state) ??
+      (state.failed && !h.options.always ? 'earlier failure' : undefined);
+    if (skipReason) {
+      result.note = skipReason;
+      continue;
+    }
+
+    const envOut = createHookEnvFile();
+    const hookEnv = {
+      ...mergedEnv,
+      [envKey(prefix, 'HOOK_EVENT')]: h.stage,
+      [envKey(prefix, 'HOOK_COMMAND')]: h.additionalHookName || '',
+      [envKey(prefix, 'HOOK_PLATFORM')]: h.platform || '',
+      [envKey(prefix, 'HOOK_BINARY')]: h.binary || '',
+      [envKey(prefix, 'HOOK_FILE')]: h.file,
+      [envKey(prefix, 'HOOK_ENV_OUT')]: envOut,
+      ...(h.stage === 'post' && state.exitReason
+        ? { [envKey(prefix, 'HOOK_EXIT_REASON')]: state.exitReason }
+        : {}),
+    };
+
+    const startedAt = new Date();
+    const { code, timedOut, interrupted, signal } = await spawnCommand(hookCommandLine(h), {
+      cwd,
+      env: hookEnv,
+      shell: prepared.shell,
+      timeoutMs: h.options.timeoutMs,
+      interrupts: state.interrupts,
+      gracePeriodMs: prepared.gracePeriodMs,
+      logger: prepared.logger,
+    });
+    recordTiming(result, startedAt, signal);
+    const exported = collectHookEnv(envOut);
+    if (code === 0) {
+      result.status = 'ok';
+      mergeHookEnv(h, exported, prepared);
+      continue;
+    }
+
+    result.exitCode = code;
+    if (interrupted) {
+      result.status = 'interrupted';
+      continue;
+    }
+    result.status = timedOut ? 'timeout' : 'failed';
+    if (h.options.continueOnError) {
+      result.note = 'continue-on-error';
+    } else {
+      markFailed(state, code);
+    }
+  }
+}
+
+type CommandStep = Exclude<PreparedStep, { type: 'hook' }>;
+
+// Record a compose or shell step as skipped; running it updates the result.
+function recordCommand(step: CommandStep, prepared: PreparedRun, state: RunState) {
+  const result: StepResult =
+    step.type === 'compose'
+      ? {
+          type: 'compose',
+          command: composeCommand(prepared.composeBin, step.args, prepared.shell),
+          args: step.args,
+          status: 'skipped',
+          durationMs: 0,
+        }
+      : { type: 'shell', command: step.command, status: 'skipped', durationMs: 0 };
+  state.steps.push(result);
+  return result;
+}
+
+// Run a compose invocation or a shell step and record it. Shell steps see the same environment as
+// hooks; compose gets its own.
+async function runCommand(step: CommandStep, prepared: PreparedRun, state: RunState) {
+  const result = recordCommand(step, prepared, state);
+  const startedAt = new Date();
+  const { code, interrupted, signal } = await spawnCommand(
+    step.type === 'compose'
+      ? { bin: prepared.composeBin, args: step.args }
+      : { bin: [step.command], args: [] },
+    {
+      cwd: prepared.environment.cwd,
+      env: step.type === 'compose' ? prepared.composeEnv : prepared.environment.mergedEnv,
+      shell: step.type === 'shell' || prepared.shell,
+      interrupts: state.interrupts,
+      gracePeriodMs: prepared.gracePeriodMs,
+      logger: prepared.logger,
+    },
+  );
+  recordTiming(result, startedAt, signal);
+  result.status = interrupted ? 'interrupted' : code === 0 ? 'ok' : 'failed';
+  result.exitCode = code;
+  if (result.status === 'failed' && step.continueOnError) result.note = 'continue-on-error';
+  return result;
+}
+
+// Run compose and return what it prints. It reads the env files of the run, so the generated ones
+// must exist.
+function captureCompose(
+  prepared: PreparedRun,
+  args: string[],
+): { stdout?: string; errors: string[] } {
+  const { environment, composeBin, shell, composeEnv } = prepared;
+  const result = captureCommand(
+    { bin: composeBin, args },
+    { cwd: environment.cwd, env: composeEnv, shell, logger: prepared.logger },
+  );
+  if (result.code !== 0) {
+    const command = composeCommand(composeBin, args, shell);
+    return { errors: [`${command} failed with exit code ${result.code}`] };
+  }
+  return { stdout: result.stdout, errors: [] };
+}
+
+// Compose commands outside of a run need the generated env files as well.
+function withGeneratedEnvFiles<T>(prepared: PreparedRun, fn: () => T): T {
+  try {
+    writeGeneratedEnvFiles(prepared.generatedEnvFiles);
+    return fn();
+  } finally {
+    removeGeneratedEnvFiles(prepared.generatedEnvFiles);
+  }
+}
+
+function lockPrepared(prepared: PreparedRun): { lock?: LockFile; errors: string[] } {
+  const { environment, composeBin, composeInfo, shell } = prepared;
+  const { stdout, errors } = captureCompose(prepared, configInvocation(prepared.baseArgs));
+  if (stdout === undefined) return { errors };
+  const compose = {
+    bin: composeCommand(composeBin, [], shell),
+    flavour: composeInfo.flavour,
+    ...(composeInfo.version !== undefined && { version: composeInfo.version }),
+  };
+  return { lock: buildLock(environment, compose, stdout), errors: [] };
+}
+
+function checkLock(prepared: PreparedRun): string[] {
+  const file = path.join(prepared.environment.cwd, LOCK_FILE_NAME);
+  const { lock: locked, errors: readErrors } = readLockFile(file);
+  if (!locked) return readErrors;
+  const { lock, errors } = lockPrepared(prepared);
+  if (!lock) return errors;
+  const differences = diffLock(locked, lock);
+  if (differences.length === 0) {
+    prepared.logger.info('resolution matches the lock file', { file });
+    return [];
+  }
+  return [
+    `${LOCK_FILE_NAME} does not match the current resolution (run cmp-lock to update it):`,
+    ...differences.map((line) => `  ${line}`),
+  ];
+}
+
+/**
+ * Resolve a run like `prepareRun()` and write what it resolved to the lock file in the cwd:
+ * hashes of the env files, the non-secret env values, the compose binary and the output of
+ * `<bin> config`. Runs with `frozen` fail when their resolution differs from it.
+ */
+export function writeLockFile(options: RunOptions = {}): {
+  file?: string;
+  lock?: LockFile;
+  errors: string[];
+} {
+  const { prepared, errors } = prepareRun(options);
+  if (!prepared) return { errors };
+  let locked: { lock?: LockFile; errors: string[] };
+  try {
+    locked = withGeneratedEnvFiles(prepared, () => lockPrepared(prepared));
+  } catch (err) {
+    return { errors: [err instanceof Error ? err.message : String(err)] };
+  }
+  if (!locked.lock) return { errors: locked.errors };
+  const file = path.join(prepared.environment.cwd, LOCK_FILE_NAME);
+  writeFileSync(file, formatLockFile(locked.lock));
+  return { file, lock: locked.lock, errors: [] };
+}
+
+/**
+ * Names of the services declared in the compose files of a run: those in COMPOSE_FILE, or else
+ * the base, override and profile files in the cwd. They are read from the files (see
+ * `readComposeServices`), so nothing is spawned, neither compose nor the env providers.
+ */
+export function listServices(options: RunOptions = {}): { services: string[]; errors: string[] } {
+  const environment = resolveEnvironment({ ...options, skipEnvProviders: true });
+  if (environment.errors.length > 0) return { services: [], errors: environment.errors };
+  const { cwd, mergedEnv, composeProfiles } = environment;
+  const separator = mergedEnv.COMPOSE_PATH_SEPARATOR || path.delimiter;
+  const files = mergedEnv.COMPOSE_FILE
+    ? mergedEnv.COMPOSE_FILE.split(separator).map((f) => path.resolve(cwd, f))
+    : composeFileCandidates(cwd, composeProfiles);
+  return { services: readComposeServices(files), errors: [] };
+}
+
+/**
+ * Run the pre hooks, the steps and the post hooks of a prepared run. A failing step stops the
+ * remaining ones unless it may continue on error; afterwards the post hooks either run as usual
+ * (`postHooksAfterComposeFailure`) or, like after a failed hook, only the `always` ones do.
+ *
+ * After an interruption the post hooks still run, with HOOK_EXIT_REASON=signal, and with
+ * `downOnExit` an interrupted foreground `up` is followed by `down`. What the env providers printed
+ * is written to private temp env files for the duration of the run. With `frozen` the run fails
+ * before any hook when its resolution differs from the lock file.
+ */
+export async function executeRun(
+  prepared: PreparedRun,
+  interrupts: Interrupts = createInterrupts(),
+): Promise<RunResult> {
+  try {
+    writeGeneratedEnvFiles(prepared.generatedEnvFiles);
+  } catch (err) {
+    removeGeneratedEnvFiles(prepared.generatedEnvFiles);
+    return {
+      exitCode: 1,
+      steps: [],
+      errors: [
+        `failed to write env provider output: ${err instanceof Error ? err.message : String(err)}`,
+      ],
+    };
+  }
+  try {
+    const lockErrors = prepared.frozen ? checkLock(prepared) : [];
+    if (lockErrors.length > 0) return { exitCode: 1, steps: [], errors: lockErrors };
+    return await executeSteps(prepared, interrupts);
+  } finally {
+    removeGeneratedEnvFiles(prepared.generatedEnvFiles);
+  }
+}
+
+async function executeSteps(prepared: PreparedRun, interrupts: Interrupts): Promise<RunResult> {
+  const state: RunState = { failed: false, exitCode: 0, steps: [], interrupts };
+  await runHooks(prepared.hookSets.pre, prepared, state);
+
+  let stepCode = 0;
+  for (const step of prepared.steps) {
+    if (step.type === 'hook') {
+      await runHooks([step.hook], prepared, state);
+      continue;
+    }
+    if (state.failed || stepCode !== 0 || interrupts.signal) {
+      recordCommand(step, prepared, state);
+      continue;
+    }
+    const result = await runCommand(step, prepared, state);
+    if (result.status === 'failed' && !step.continueOnError) {
+      stepCode = result.exitCode ?? 1;
+      if (!prepared.postHooksAfterComposeFailure) markFailed(state, stepCode);
+    }
+
+    const downArgs = step.type === 'compose' ? downInvocation(step.args) : undefined;
+    if (result.status === 'interrupted' && prepared.downOnExit && downArgs) {
+      prepared.logger.info('interrupted foreground up, running down');
+      await runCommand(
+        { type: 'compose', args: downArgs, continueOnError: false },
+        prepared,
+        state,
+      );
+    }
+  }
+  state.exitReason = interrupts.signal
+    ? 'signal'
+    : state.failed || stepCode !== 0
+      ? 'failure'
+      : 'success';
+
+  await runHooks(prepared.hookSets.post, prepared, state);
+  return {
+    exitCode: interrupts.signal
+      ? signalExitCode(interrupts.signal)
+      : state.failed
+        ? state.exitCode
+        : stepCode,
+    steps: state.steps,
+    errors: [],
+  };
+}
+
+/**
+ * Resolve and execute a full run. Never touches process.env or exits the process; the outcome,
+ * including every hook and compose step, is returned instead. An unexpected exception is rethrown
+ * once the report recorded it.
+ */
+export async function run(options: RunOptions = {}): Promise<RunResult> {
+  const startedAt = new Date();
+  let prepared: PreparedRun | undefined;
+  let result: RunResult = { exitCode: 1, steps: [], errors: [] };
+  try {
+    const resolved = prepareRun(options);
+    prepared = resolved.prepared;
+    result = prepared
+      ? await executeRun(prepared, options.interrupts)
+      : { ...result, errors: resolved.errors };
+  } catch (err) {
+    result = { ...result, errors: [err instanceof Error ? err.message : String(err)] };
+    throw err;
+  } finally {
+    result = writeRunReport(options, startedAt, prepared, result, options.interrupts);
+  }
+  return result;
+}
+
+/** The report of a finished run (see `RunReport`); without `prepared` the run could not start. */
+export function buildRunReport(
+  options: RunOptions,
+  startedAt: Date,
+  prepared: PreparedRun | undefined,
+  result: RunResult,
+  interrupts?: Interrupts,
+): RunReport {
+  const endedAt = new Date();
+  const cwd = prepared?.environment.cwd ?? path.resolve(options.cwd ?? process.cwd());
+  const composeArgs = options.composeArgs ?? [];
+  const signal = interrupts?.signal;
+  return {
+    version: RUN_REPORT_VERSION,
+    command: [options.task, ...composeArgs].filter(Boolean).join(' '),
+    ...(options.task !== undefined && { task: options.task }),
+    cwd,
+    status: signal ? 'interrupted' : result.exitCode === 0 ? 'ok' : 'failed',
+    exitCode: result.exitCode,
+    ...(signal && { signal }),
+    startedAt: startedAt.toISOString(),
+    endedAt: endedAt.toISOString(),
+    durationMs: endedAt.getTime() - startedAt.getTime(),
+    profiles: prepared?.environment.profiles ?? [],
+    envFiles: prepared?.environment.envFiles ?? [],
+    ...(prepared && { composeBin: composeCommand(prepared.composeBin, [], prepared.shell) }),
+    errors: result.errors,
+    steps: result.steps.map((step) => ({
+      ...step,
+      command: step.type === 'hook' ? (step.command ?? step.file) : step.command,
+      cwd,
+    })),
+  };
+}
+
+/**
+ * Write the report of `options.report`, if any, and return the result. A report that cannot be
+ * written fails the run, since CI relies on it.
+ */
+export function writeRunReport(
+  options: RunOptions,
+  startedAt: Date,
+  prepared: PreparedRun | undefined,
+  result: RunResult,
+  interrupts?: Interrupts,
+): RunResult {
+  if (!options.report) return result;
+  const report = buildRunReport(options, startedAt, prepared, result, interrupts);
+  const file = path.resolve(report.cwd, options.report);
+  const format = options.reportFormat ?? reportFormatFor(file);
+  try {
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, formatRunReport(report, format));
+  } catch (err) {
+    const message = `failed to write run report ${file}: ${err instanceof Error ? err.message : String(err)}`;
+    return { ...result, exitCode: result.exitCode || 1, errors: [...result.errors, message] };
+  }
+  options.logger?.info('wrote run report', { file, format });
+  return result;
+}
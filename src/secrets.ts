@@ -0,0 +1,215 @@
+import { spawnSync } from 'node:child_process';
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { existsSync, mkdtempSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { splitCommand } from './exec.js';
+
+// `.env.prod.enc` is the encrypted variant of `.env.prod` and is merged right after it.
+export const ENCRYPTED_SUFFIX = '.enc';
+
+const PAYLOAD_PREFIX = 'CMPCAT-ENC-V1';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+export type SecretsKey = {
+  key: Buffer;
+  // Human readable origin, e.g. the env var name or key file path. Never the key itself.
+  source: string;
+};
+
+export function isEncryptedEnvFile(file: string): boolean {
+  return file.endsWith(ENCRYPTED_SUFFIX);
+}
+
+export function generateKey(): string {
+  return randomBytes(KEY_BYTES).toString('base64');
+}
+
+export function parseKey(text: string, source: string): SecretsKey {
+  const key = Buffer.from(text.trim(), 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`${source}: expected a base64 encoded ${KEY_BYTES} byte key`);
+  }
+  return { key, source };
+}
+
+/**
+ * Encrypt with AES-256-GCM. The payload is a single line holding the IV, the auth tag and the
+ * ciphertext so encrypted files diff and merge like any other text file.
+ */
+export function encryptText(plain: string, key: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  const parts = [iv, tag, ciphertext].map((p) => p.toString('base64'));
+  return `${[PAYLOAD_PREFIX, ...parts].join(':')}\n`;
+}
+
+export function decryptText(payload: string, key: Buffer): string {
+  const parts = payload.trim().split(':');
+  if (parts.length !== 4 || parts[0] !== PAYLOAD_PREFIX) {
+    throw new Error('not a compose-cat encrypted file');
+  }
+  const [iv, tag, ciphertext] = parts.slice(1).map((p) => Buffer.from(p, 'base64'));
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error('decryption failed (wrong key or tampered file)');
+  }
+}
+
+/**
+ * Where the key lives, in order: `<prefix>SECRETS_KEY` (the key itself), `<prefix>SECRETS_KEY_FILE`
+ * (a path) and finally `<dotenvPrefix>.key` in the cwd.
+ */
+export function secretsKeyFile(
+  cwd: string,
+  prefix: string,
+  dotenvPrefix: string,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  const fromEnv = env[`${prefix}SECRETS_KEY_FILE`];
+  return path.resolve(cwd, fromEnv || `${dotenvPrefix}.key`);
+}
+
+export function loadSecretsKey(
+  cwd: string,
+  prefix: string,
+  dotenvPrefix: string,
+  env: NodeJS.ProcessEnv = process.env,
+): SecretsKey | undefined {
+  const envName = `${prefix}SECRETS_KEY`;
+  const fromEnv = env[envName];
+  if (fromEnv) return parseKey(fromEnv, envName);
+
+  const file = secretsKeyFile(cwd, prefix, dotenvPrefix, env);
+  if (!existsSync(file)) return undefined;
+  return parseKey(readFileSync(file, 'utf8'), file);
+}
+
+// Written next to the target and renamed over it, so the key file is never half written.
+export function writeKeyFile(file: string, key: string) {
+  const tmpFile = `${file}.${process.pid}.tmp`;
+  try {
+    writeFileSync(tmpFile, `${key}\n`, { mode: 0o600 });
+    renameSync(tmpFile, file);
+  } finally {
+    rmSync(tmpFile, { force: true });
+  }
+}
+
+// Accept both `.env.prod` and `.env.prod.enc` on the command line.
+export function encryptedPath(file: string): string {
+  return isEncryptedEnvFile(file) ? file : `${file}${ENCRYPTED_SUFFIX}`;
+}
+
+export function decryptFile(file: string, key: Buffer): string {
+  return decryptText(readFileSync(file, 'utf8'), key);
+}
+
+export function encryptToFile(file: string, plain: string, key: Buffer) {
+  writeFileSync(file, encryptText(plain, key));
+}
+
+/**
+ * Re-encrypt `files` with a new key stored in `keyFile`. Every file is decrypted before anything
+ * is written, and the new key is written before any file is, so no file is ever encrypted with a
+ * key that is not on disk. When re-encryption fails, the files and the old key are restored.
+ * A key from `<prefix>SECRETS_KEY` is refused: it would still win over the new key file.
+ */
+export function rotateSecretsKey(
+  files: string[],
+  secretsKey: SecretsKey,
+  keyFile: string,
+): { errors: string[] } {
+  if (secretsKey.source !== keyFile) {
+    return {
+      errors: [
+        `the key comes from ${secretsKey.source}, which would still override ${keyFile}; unset it and rotate the key file instead`,
+      ],
+    };
+  }
+  const original: Record<string, string> = {};
+  const plain: Record<string, string> = {};
+  const errors: string[] = [];
+  for (const file of files) {
+    try {
+      original[file] = readFileSync(file, 'utf8');
+      plain[file] = decryptText(original[file], secretsKey.key);
+    } catch (err) {
+      errors.push(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  if (errors.length > 0) return { errors };
+
+  const oldKey = readFileSync(keyFile, 'utf8').trim();
+  const newKey = generateKey();
+  try {
+    writeKeyFile(keyFile, newKey);
+  } catch (err) {
+    return { errors: [`${keyFile}: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+  const { key } = parseKey(newKey, keyFile);
+  const written: string[] = [];
+  try {
+    for (const file of files) {
+      written.push(file);
+      encryptToFile(file, plain[file], key);
+    }
+  } catch (err) {
+    for (const file of written) writeFileSync(file, original[file]);
+    writeKeyFile(keyFile, oldKey);
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      errors: [`${written[written.length - 1]}: ${message}; restored the old key and files`],
+    };
+  }
+  return { errors: [] };
+}
+
+export type EditOptions = {
+  // $VISUAL and $EDITOR are read from here (default: process.env).
+  env?: NodeJS.ProcessEnv;
+  // Write the plaintext to the OS temp directory, which is usually on disk, when /dev/shm is
+  // missing. Without it the edit is refused instead.
+  allowDiskTemp?: boolean;
+};
+
+/**
+ * Let the user edit an encrypted file in $VISUAL/$EDITOR. Editors need a real file, so the
+ * plaintext lives in a private (0600) temp file on the RAM backed /dev/shm, and is removed as soon
+ * as the editor exits. The editor command is split into argv like `--cmp-bin` values and spawned
+ * without a shell. Returns false when the content did not change.
+ */
+export function editEncryptedFile(file: string, key: Buffer, options: EditOptions = {}): boolean {
+  const env = options.env ?? process.env;
+  const editor = env.VISUAL || env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi');
+  const argv = splitCommand(editor);
+  if (!argv || argv.length === 0) throw new Error(`invalid editor command "${editor}"`);
+  const ramBacked = existsSync('/dev/shm');
+  if (!ramBacked && !options.allowDiskTemp) {
+    throw new Error(
+      `no RAM backed /dev/shm for the plaintext; refusing to write it to ${tmpdir()} without --allow-disk-temp`,
+    );
+  }
+  const before = existsSync(file) ? decryptFile(file, key) : '';
+  const dir = mkdtempSync(path.join(ramBacked ? '/dev/shm' : tmpdir(), 'cmpcat-secrets-'));
+  const tmpFile = path.join(dir, path.basename(file, ENCRYPTED_SUFFIX));
+  try {
+    writeFileSync(tmpFile, before, { mode: 0o600 });
+    const res = spawnSync(argv[0], [...argv.slice(1), tmpFile], { stdio: 'inherit', env });
+    if (res.error) throw new Error(`failed to start editor "${editor}": ${res.error.message}`);
+    if (res.status !== 0) throw new Error(`editor "${editor}" exited with ${res.status}`);
+    const after = readFileSync(tmpFile, 'utf8');
+    if (after === before) return false;
+    encryptToFile(file, after, key);
+    return true;
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,184 @@
+import { splitCommand } from './exec.js';
+
+/**
+ * One step of a task. `compose` args are appended to the shared compose args, `hook` is a script
+ * run like a hook (header options, exported variables), `shell` a command line run through the
+ * platform shell and `task` inlines the steps of another task.
+ */
+export type TaskStep =
+  | { compose: string[]; continueOnError?: boolean }
+  | { hook: string; continueOnError?: boolean }
+  | { shell: string; continueOnError?: boolean }
+  | { task: string };
+
+// A step left after every `task` step has been inlined.
+export type ExpandedTaskStep = Exclude<TaskStep, { task: string }>;
+
+export type TaskDefinition = {
+  description?: string;
+  steps: TaskStep[];
+};
+
+export type TaskInfo = {
+  name: string;
+  description?: string;
+  builtin: boolean;
+};
+
+// The cmp-clean* commands are tasks like any other; config files may not redefine them.
+export const BUILTIN_TASKS: Record<string, TaskDefinition> = {
+  'cmp-clean': {
+    description: 'Stop services, remove containers, and remove volumes',
+    steps: [{ compose: ['rm', '-fsv'] }, { compose: ['down', '--volumes'] }],
+  },
+  'cmp-clean-i-local': {
+    description: 'Like cmp-clean and also removes images for services without a custom tag',
+    steps: [{ compose: ['rm', '-fsv'] }, { compose: ['down', '--rmi', 'local', '--volumes'] }],
+  },
+  'cmp-clean-i-all': {
+    description: 'Like cmp-clean and also removes all images referenced by the services',
+    steps: [{ compose: ['rm', '-fsv'] }, { compose: ['down', '--rmi', 'all', '--volumes'] }],
+  },
+};
+
+const STEP_KINDS = ['compose', 'hook', 'shell', 'task'] as const;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// `compose` accepts argv or a command line that is split like `--cmp-bin` values.
+function validateStep(raw: unknown, where: string, errors: string[]): TaskStep | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push(`${where}: must be an object`);
+    return undefined;
+  }
+  const kinds = STEP_KINDS.filter((k) => k in raw);
+  if (kinds.length !== 1) {
+    errors.push(`${where}: needs exactly one of ${STEP_KINDS.join(', ')}`);
+    return undefined;
+  }
+  const [kind] = kinds;
+  const { [kind]: value, continueOnError, ...rest } = raw;
+  for (const key of Object.keys(rest)) errors.push(`${where}: unknown key "${key}"`);
+  if (continueOnError !== undefined && (kind === 'task' || typeof continueOnError !== 'boolean')) {
+    errors.push(
+      kind === 'task'
+        ? `${where}: "continueOnError" is not allowed on task steps`
+        : `${where}: "continueOnError" must be a boolean`,
+    );
+  }
+  const options = typeof continueOnError === 'boolean' ? { continueOnError } : {};
+
+  if (kind === 'compose') {
+    const args =
+      typeof value === 'string'
+        ? splitCommand(value)
+        : Array.isArray(value) && value.every((v) => typeof v === 'string')
+          ? value
+          : undefined;
+    if (!args || args.length === 0) {
+      errors.push(`${where}: "compose" must be a non-empty array of strings or a command line`);
+      return undefined;
+    }
+    return { compose: args, ...options };
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push(`${where}: "${kind}" must be a non-empty string`);
+    return undefined;
+  }
+  if (kind === 'task') return { task: value };
+  return kind === 'hook' ? { hook: value, ...options } : { shell: value, ...options };
+}
+
+function validateTask(raw: unknown, where: string, errors: string[]): TaskDefinition | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push(`${where}: must be an object`);
+    return undefined;
+  }
+  const { description, steps, ...rest } = raw;
+  for (const key of Object.keys(rest)) errors.push(`${where}: unknown key "${key}"`);
+  if (description !== undefined && typeof description !== 'string') {
+    errors.push(`${where}: "description" must be a string`);
+  }
+  if (!Array.isArray(steps) || steps.length === 0) {
+    errors.push(`${where}: "steps" must be a non-empty array`);
+    return undefined;
+  }
+  return {
+    ...(typeof description === 'string' ? { description } : {}),
+    steps: steps.flatMap((s, i) => validateStep(s, `${where}.steps[${i}]`, errors) ?? []),
+  };
+}
+
+/**
+ * Check the `tasks` config section. Besides the shape of every step, references to other tasks
+ * must resolve and must not form a cycle.
+ */
+export function validateTasks(
+  raw: unknown,
+  source: string,
+): { tasks: Record<string, TaskDefinition>; errors: string[] } {
+  const errors: string[] = [];
+  if (!isPlainObject(raw)) {
+    return { tasks: {}, errors: [`${source}: "tasks" must be an object keyed by task name`] };
+  }
+
+  const tasks: Record<string, TaskDefinition> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    const where = `${source}: tasks.${name}`;
+    if (name in BUILTIN_TASKS) {
+      errors.push(`${where}: built-in tasks cannot be redefined`);
+      continue;
+    }
+    const task = validateTask(value, where, errors);
+    if (task) tasks[name] = task;
+  }
+  for (const name of Object.keys(tasks)) {
+    errors.push(...expandTask(name, tasks).errors.map((err) => `${source}: tasks.${name}: ${err}`));
+  }
+  return { tasks, errors };
+}
+
+/**
+ * Flatten a task (built-in or from `tasks`) into the steps it runs, inlining `task` steps.
+ */
+export function expandTask(
+  name: string,
+  tasks: Record<string, TaskDefinition>,
+): { steps: ExpandedTaskStep[]; errors: string[] } {
+  const all = { ...BUILTIN_TASKS, ...tasks };
+  const errors: string[] = [];
+  const expand = (taskName: string, chain: string[]): ExpandedTaskStep[] => {
+    if (chain.includes(taskName)) {
+      errors.push(`task "${taskName}" includes itself (${[...chain, taskName].join(' -> ')})`);
+      return [];
+    }
+    const task = all[taskName];
+    if (!task) {
+      errors.push(`unknown task "${taskName}"`);
+      return [];
+    }
+    return task.steps.flatMap((step) =>
+      'task' in step ? expand(step.task, [...chain, taskName]) : [step],
+    );
+  };
+  const steps = expand(name, []);
+  return { steps, errors };
+}
+
+// Built-in tasks first, then the configured ones in file order.
+export function describeTasks(tasks: Record<string, TaskDefinition>): TaskInfo[] {
+  return [
+    ...Object.entries(BUILTIN_TASKS).map(([name, t]) => ({
+      name,
+      description: t.description,
+      builtin: true,
+    })),
+    ...Object.entries(tasks).map(([name, t]) => ({
+      name,
+      description: t.description,
+      builtin: false,
+    })),
+  ];
+}
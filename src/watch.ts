@@ -0,0 +1,213 @@
+import { createHash } from 'node:crypto';
+import { FSWatcher, readFileSync, watch } from 'node:fs';
+import path from 'node:path';
+import { composeFileCandidates } from './compose-files.js';
+import { dotenvFileCandidates, resolveOptions } from './environment.js';
+import { createInterrupts, interrupt, Interrupts, InterruptSignal } from './exec.js';
+import { Logger, silentLogger } from './logger.js';
+import {
+  executeRun,
+  PreparedRun,
+  prepareRun,
+  RunOptions,
+  RunResult,
+  writeRunReport,
+} from './runner.js';
+
+type StringMap = Record<string, string>;
+
+export const DEFAULT_WATCH_DEBOUNCE_MS = 300;
+
+// Keys only: values may be secrets.
+export type EnvDiff = {
+  added: string[];
+  removed: string[];
+  changed: string[];
+};
+
+export type WatchOptions = RunOptions & {
+  // Quiet time after the last change before the run starts again.
+  debounceMs?: number;
+  // Called after every run, with how the environment changed since the previous successful
+  // resolution (undefined for the first one). Runs that could not start have `errors`.
+  onRun?: (result: RunResult, envDiff?: EnvDiff) => void;
+};
+
+export function diffEnv(before: StringMap, after: StringMap): EnvDiff {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  return {
+    added: keys.filter((k) => !(k in before)),
+    removed: keys.filter((k) => !(k in after)),
+    changed: keys.filter((k) => k in before && k in after && before[k] !== after[k]),
+  };
+}
+
+export function formatEnvDiff(diff: EnvDiff): string[] {
+  return [
+    ...diff.added.map((k) => `+ ${k}`),
+    ...diff.removed.map((k) => `- ${k}`),
+    ...diff.changed.map((k) => `~ ${k}`),
+  ];
+}
+
+/**
+ * Files whose change starts a new run: the config file, every dotenv file that would be merged if
+ * it existed, the env schema file, the compose files compose-cat or compose itself may pick up
+ * (including those in COMPOSE_FILE) and the hook scripts and env providers of the last resolution.
+ */
+export function watchedFiles(options: RunOptions, prepared?: PreparedRun): string[] {
+  const resolved = resolveOptions(options);
+  const { cwd, config, configFile, dotenvPrefix, profiles } = resolved;
+  // The profiles of the last resolution include the ones they extend.
+  const dotenv = dotenvFileCandidates(
+    prepared?.environment ?? resolved,
+    options.disableProfileBasedDotenv ?? config.disableProfileBasedDotenv,
+  );
+  const composeFileEnv = prepared?.environment.mergedEnv.COMPOSE_FILE;
+  const separator = prepared?.environment.mergedEnv.COMPOSE_PATH_SEPARATOR || path.delimiter;
+  const hooks = prepared
+    ? [
+        ...prepared.hookSets.pre,
+        ...prepared.steps.flatMap((s) => (s.type === 'hook' ? [s.hook] : [])),
+        ...prepared.hookSets.post,
+      ]
+    : [];
+  const files = [
+    ...(configFile ? [configFile] : []),
+    ...dotenv.base,
+    ...dotenv.profile,
+    path.resolve(cwd, `${dotenvPrefix}.schema.json`),
+    ...composeFileCandidates(cwd, prepared?.environment.composeProfiles ?? profiles),
+    ...(composeFileEnv ? composeFileEnv.split(separator).map((f) => path.resolve(cwd, f)) : []),
+    ...hooks.map((h) => h.file),
+    ...Object.keys(prepared?.environment.generatedEnv ?? {}),
+  ];
+  return [...new Set(files)];
+}
+
+// Content hash of every watched file, so saving a file unchanged (or a hook regenerating one with
+// the same content) does not start another run.
+function fingerprint(files: string[]): string {
+  const hash = createHash('sha256');
+  for (const file of files) {
+    hash.update(file);
+    try {
+      hash.update(readFileSync(file));
+    } catch {
+      hash.update('\0missing');
+    }
+  }
+  return hash.digest('hex');
+}
+
+// Directories are watched rather than the files: editors often save by replacing a file, which
+// ends a watch on the file itself, and a file created later (e.g. `.env.dev.local`) counts too.
+function watchFiles(onChange: (file: string) => void, log: Logger) {
+  const watchers = new Map<string, FSWatcher>();
+  let files = new Set<string>();
+  return {
+    update(next: string[]) {
+      files = new Set(next);
+      const dirs = new Set(next.map((f) => path.dirname(f)));
+      for (const [dir, watcher] of watchers) {
+        if (dirs.has(dir)) continue;
+        watcher.close();
+        watchers.delete(dir);
+      }
+      for (const dir of dirs) {
+        if (watchers.has(dir)) continue;
+        try {
+          const watcher = watch(dir, (_event, name) => {
+            const file = name ? path.join(dir, name.toString()) : undefined;
+            if (file && files.has(file)) onChange(file);
+          });
+          watcher.on('error', (err) => log.warn('stopped watching', { dir, error: String(err) }));
+          watchers.set(dir, watcher);
+        } catch (err) {
+          // Missing directories (e.g. a hooks directory that does not exist yet) are skipped.
+          log.debug('cannot watch directory', { dir, error: String(err) });
+        }
+      }
+    },
+    close() {
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}
+
+/**
+ * Run like `run()`, then again whenever a watched file changes (see `watchedFiles`). Every run
+ * resolves everything anew, including the hooks. A change during a run, e.g. a foreground `up`,
+ * stops it the way SIGTERM does before the next run starts.
+ *
+ * Resolves once `options.interrupts` receives an interrupt, which is also forwarded to the current
+ * run; without `interrupts` it never resolves.
+ */
+export async function watchRun(options: WatchOptions): Promise<void> {
+  const { debounceMs = DEFAULT_WATCH_DEBOUNCE_MS, onRun } = options;
+  const stop = options.interrupts ?? createInterrupts();
+  const log = options.logger ?? silentLogger;
+  const runOptions: RunOptions = { ...options, interrupts: undefined };
+  let active: Interrupts | undefined;
+  let files: string[] = [];
+  let lastFingerprint = '';
+  let changed = false;
+  let wake: (() => void) | undefined;
+  let timer: NodeJS.Timeout | undefined;
+
+  const onStop = (signal: InterruptSignal) => {
+    if (active) interrupt(active, signal);
+    wake?.();
+  };
+  stop.listeners.add(onStop);
+  const watcher = watchFiles((file) => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      if (fingerprint(files) === lastFingerprint) return;
+      log.info('watched file changed', { file });
+      changed = true;
+      if (active && !active.signal) interrupt(active, 'SIGTERM');
+      wake?.();
+    }, debounceMs);
+  }, log);
+
+  let previousEnv: StringMap | undefined;
+  let lastPrepared: PreparedRun | undefined;
+  try {
+    while (!stop.signal) {
+      changed = false;
+      const startedAt = new Date();
+      const { prepared, errors } = prepareRun(runOptions);
+      lastPrepared = prepared ?? lastPrepared;
+      files = watchedFiles(runOptions, lastPrepared);
+      lastFingerprint = fingerprint(files);
+      watcher.update(files);
+
+      let result: RunResult = { exitCode: 1, steps: [], errors };
+      let envDiff: EnvDiff | undefined;
+      const interrupts = createInterrupts();
+      if (prepared) {
+        active = interrupts;
+        result = await executeRun(prepared, active);
+        active = undefined;
+        // After the run, so keys exported by hooks count too.
+        const env = { ...prepared.environment.mergedEnv };
+        envDiff = previousEnv && diffEnv(previousEnv, env);
+        previousEnv = env;
+      }
+      // Every run overwrites the report of the one before.
+      result = writeRunReport(runOptions, startedAt, prepared, result, interrupts);
+      onRun?.(result, envDiff);
+      if (!changed && !stop.signal) {
+        log.info('watching for changes', { files: files.length });
+        await new Promise<void>((resolve) => (wake = resolve));
+      }
+      wake = undefined;
+    }
+  } finally {
+    clearTimeout(timer);
+    watcher.close();
+    stop.listeners.delete(onStop);
+  }
+}
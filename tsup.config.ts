@@ -13,7 +13,7 @@ const isProduction = buildMode === 'production';
 console.log('\n\n## BUILD_MODE', buildMode, '\n\n');
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/cli.ts'],
   dts: 'src/index.ts',
   splitting: false,
   sourcemap: !isProduction,
@@ -34,8 +34,8 @@ export default defineConfig({
   onSuccess: async () => {
     if (process.platform !== 'win32') {
       try {
-        await exec('chmod +x dist/index.js || true');
-        await exec('chmod +x dist/index.mjs || true');
+        await exec('chmod +x dist/cli.js || true');
+        await exec('chmod +x dist/cli.cjs || true');
       } catch (e) {}
     }
   },